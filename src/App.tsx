@@ -1,72 +1,331 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Upload, Play, Pause, Loader2, FileAudio, RefreshCw, Info, Copy, Check, Code, AlignLeft, X, Globe, Terminal, Mic, Square, Download, MonitorPlay, Cpu, Zap, Video, PlayCircle, XCircle } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Upload, Play, Pause, Loader2, FileAudio, RefreshCw, Info, Copy, Check, Code, AlignLeft, X, Terminal, Mic, Square, Download, MonitorPlay, Cpu, Zap, Video, PlayCircle, XCircle, Settings2, FileUp, Pencil, Undo2, Redo2, Library, AlertTriangle, Users, Languages, Boxes, HardDrive, WifiOff, ShieldAlert, BookA, ScrollText, AudioWaveform, Scissors } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 
-// Define the types for the worker messages
-interface ProgressMessage {
-  status: string;
-  name?: string;
-  file?: string;
-  progress?: number;
-  loaded?: number;
-  total?: number;
-}
-
-interface WordTimestamp {
-  text?: string;
-  word?: string;
-  timestamp?: [number, number];
-  start?: number;
-  end?: number;
-  speaker?: string;
-}
-
-interface TranscriptionOutput {
-  text: string;
-  chunks: WordTimestamp[];
-}
+import type { ProgressMessage, TranscriptionOutput, TranscriptionProgress, DiarizationMode, LiveTranscript, SpeechRegion, WhisperTask, DetectedLanguage } from './types';
+import { CueOptions, DEFAULT_CUE_OPTIONS, buildTrackCues } from './lib/subtitles';
+import { runExporter } from './lib/exporters';
+import { importTranscript } from './lib/importers';
+import { startStreamingTranscription } from './lib/transcriptionStream';
+import { startLiveTranscription, LiveSession } from './lib/liveTranscription';
+import { downloadFile } from './lib/download';
+import { speakerColorMap } from './lib/speakers';
+import { addRegion } from './lib/vad';
+import { AUTO_DETECT, describeDetectedLanguage } from './lib/languages';
+import { wordText, wordStart, wordEnd } from './lib/transcript';
+import { loadRegistry, saveRegistry, listModels, loadOptionsFor, estimateDownloadBytes, ModelRegistry, ModelEntry } from './lib/modelRegistry';
+import { formatBytes } from './lib/format';
+import { SearchOptions, DEFAULT_SEARCH_OPTIONS, searchTranscript, hitsByWord } from './lib/search';
+import { DEFAULT_CONFIDENCE_THRESHOLD, confidenceTint } from './lib/confidence';
+import { CachedModel, listCachedModels, isModelCached, markModelUsed } from './lib/modelCache';
+import { GlossaryRule, loadGlossary, saveGlossary, applyGlossary } from './lib/glossary';
+import { CaptionStyle, loadCaptionStyle, saveCaptionStyle } from './lib/captions';
+import { Peaks, computePeaks } from './lib/waveform';
+import {
+  Loop, PlaybackSettings, ShortcutAction, ShortcutMap, PLAYBACK_RATES, loadPlayback, savePlayback, loadShortcuts, saveShortcuts,
+  wordIndexAt, sentenceAround, segmentStarts, adjacentStart, selectedWordRange
+} from './lib/playback';
+import CueSettingsPanel from './components/CueSettingsPanel';
+import ExportMenu from './components/ExportMenu';
+import TranscriptEditor from './components/TranscriptEditor';
+import SpeakerPanel from './components/SpeakerPanel';
+import LiveTranscriptPanel from './components/LiveTranscriptPanel';
+import SpeechActivityBar from './components/SpeechActivityBar';
+import BilingualView from './components/BilingualView';
+import LanguagePicker from './components/LanguagePicker';
+import ProjectLibrary from './components/ProjectLibrary';
+import ModelRegistryPanel from './components/ModelRegistryPanel';
+import ModelCachePanel from './components/ModelCachePanel';
+import BatchQueuePanel from './components/BatchQueuePanel';
+import SearchBar from './components/SearchBar';
+import ConfidenceReview from './components/ConfidenceReview';
+import VocabularyPanel from './components/VocabularyPanel';
+import ClipExportPanel from './components/ClipExportPanel';
+import VideoPreview from './components/VideoPreview';
+import ReferenceScript from './components/ReferenceScript';
+import Timeline from './components/Timeline';
+import PlaybackControls from './components/PlaybackControls';
+import ShortcutsPanel from './components/ShortcutsPanel';
+import { useBatchQueue, BatchItem } from './hooks/useBatchQueue';
+import { createProject, updateProject, updateProjectSettings, getProject, getStorageEstimate, isQuotaError, QUOTA_WARNING_RATIO } from './lib/projectStore';
+import { useEditHistory } from './hooks/useEditHistory';
+import { useShortcuts } from './hooks/useShortcuts';
+
+// Tags the worker replies of an offline pre-download so they bypass the transcription handlers
+const PREFETCH_JOB_ID = 'prefetch';
+// Audio kept on each side of a looped word, which alone is too short to follow
+const LOOP_WORD_PADDING_S = 0.15;
 
 export default function App() {
   const [file, setFile] = useState<File | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState<ProgressMessage | null>(null);
+  const [transcriptionProgress, setTranscriptionProgress] = useState<TranscriptionProgress | null>(null);
   const [transcription, setTranscription] = useState<TranscriptionOutput | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
-  const [language, setLanguage] = useState('english');
+  const [language, setLanguage] = useState(AUTO_DETECT);
+  const [detectedLanguage, setDetectedLanguage] = useState<DetectedLanguage | null>(null);
   const [model, setModel] = useState('Xenova/whisper-tiny');
+  const [modelRegistry, setModelRegistry] = useState<ModelRegistry>(loadRegistry);
+  const [showModels, setShowModels] = useState(false);
   const [device, setDevice] = useState('wasm');
+  const [diarization, setDiarization] = useState<DiarizationMode>('embedding');
+  const [numSpeakers, setNumSpeakers] = useState(0);
+  const [vad, setVad] = useState(true);
+  const [task, setTask] = useState<WhisperTask>('transcribe');
+  const [showBilingual, setShowBilingual] = useState(true);
+  const [speechRegions, setSpeechRegions] = useState<SpeechRegion[]>([]);
+  const [mediaDuration, setMediaDuration] = useState(0);
   const [showInfo, setShowInfo] = useState(false);
   const [activeTab, setActiveTab] = useState<'transcript' | 'karaoke' | 'json'>('transcript');
   const [copied, setCopied] = useState(false);
 
   // New states for advanced features
   const [isRecording, setIsRecording] = useState(false);
+  const [liveTranscript, setLiveTranscript] = useState<LiveTranscript | null>(null);
   const [downloadStats, setDownloadStats] = useState({ speed: 0, loaded: 0, total: 0, timeRemaining: 0 });
-  const [downloadedModels, setDownloadedModels] = useState<string[]>([]);
-
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const [cachedModels, setCachedModels] = useState<CachedModel[]>([]);
+  const [showModelCache, setShowModelCache] = useState(false);
+  const [prefetching, setPrefetching] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [cueOptions, setCueOptions] = useState<CueOptions>(DEFAULT_CUE_OPTIONS);
+  const [showCueSettings, setShowCueSettings] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showSpeakers, setShowSpeakers] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [activeHit, setActiveHit] = useState(-1);
+  const [showReview, setShowReview] = useState(false);
+  const [confidenceThreshold, setConfidenceThreshold] = useState(DEFAULT_CONFIDENCE_THRESHOLD);
+  const [vocabulary, setVocabulary] = useState('');
+  const [glossary, setGlossary] = useState<GlossaryRule[]>(loadGlossary);
+  const [showVocabulary, setShowVocabulary] = useState(false);
+  const vocabularySaveRef = useRef<ReturnType<typeof setTimeout>>();
+  const [showClips, setShowClips] = useState(false);
+  // Transcript selection captured as the clip dialog opens, before focus moves away from it
+  const [clipSelection, setClipSelection] = useState<[number, number] | null>(null);
+  // Script for alignment mode; empty transcribes normally
+  const [reference, setReference] = useState('');
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [peaks, setPeaks] = useState<Peaks | null>(null);
+  const [playback, setPlayback] = useState<PlaybackSettings>(loadPlayback);
+  const [shortcuts, setShortcuts] = useState<ShortcutMap>(loadShortcuts);
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(loadCaptionStyle);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [loop, setLoop] = useState<Loop | null>(null);
+  const [loopHint, setLoopHint] = useState<string | null>(null);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+  // Non-fatal notice from the worker, e.g. speaker labels falling back to the pause heuristic
+  const [runWarning, setRunWarning] = useState<string | null>(null);
+
+  // The <audio> element, or the preview's <video> for video files
+  const audioRef = useRef<HTMLMediaElement>(null);
   const workerRef = useRef<Worker | null>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
+  const liveSessionRef = useRef<LiveSession | null>(null);
+  // Cancels the single-file run's decoding; the worker itself is restarted
+  const transcriptionRunRef = useRef<AbortController | null>(null);
   const downloadsRef = useRef<Record<string, { loaded: number, total: number }>>({});
   const globalProgressRef = useRef({ time: Date.now(), loaded: 0, speed: 0, percentage: 0 });
   const karaokeRef = useRef<HTMLDivElement>(null);
+  // Playback position at which a ranged play (e.g. a word in context) pauses
+  const stopAtRef = useRef<number | null>(null);
   const modelRef = useRef(model);
 
+  const projectIdRef = useRef<string | null>(null);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const lastSavedRef = useRef<TranscriptionOutput | null>(null);
+  const batchHandlerRef = useRef<(data: any) => boolean>(() => false);
+
+  const history = useEditHistory<TranscriptionOutput>(transcription, setTranscription);
+
   useEffect(() => {
     modelRef.current = model;
   }, [model]);
 
   useEffect(() => {
-    const cached = localStorage.getItem('downloadedModels');
-    if (cached) {
-      try { setDownloadedModels(JSON.parse(cached)); } catch (e) { }
+    const savedThreshold = Number(localStorage.getItem('confidenceThreshold'));
+    if (savedThreshold > 0) setConfidenceThreshold(savedThreshold);
+    const savedCueOptions = localStorage.getItem('cueOptions');
+    if (savedCueOptions) {
+      try { setCueOptions({ ...DEFAULT_CUE_OPTIONS, ...JSON.parse(savedCueOptions) }); } catch (e) { }
+    }
+  }, []);
+
+  const refreshCachedModels = useCallback(async () => {
+    try {
+      const localIds = modelRegistry.custom.filter(m => m.source === 'local').map(m => m.id);
+      setCachedModels(await listCachedModels(modelRegistry.localModelPath, localIds));
+    } catch (err) {
+      console.warn('Could not read the model cache', err);
     }
+  }, [modelRegistry]);
+
+  const refreshCachedModelsRef = useRef(refreshCachedModels);
+  refreshCachedModelsRef.current = refreshCachedModels;
+
+  useEffect(() => {
+    refreshCachedModels();
+  }, [refreshCachedModels]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
   }, []);
 
+  const updateModelRegistry = (registry: ModelRegistry) => {
+    setModelRegistry(registry);
+    saveRegistry(registry);
+  };
+
+  const updateConfidenceThreshold = (threshold: number) => {
+    setConfidenceThreshold(threshold);
+    localStorage.setItem('confidenceThreshold', String(threshold));
+  };
+
+  const updateGlossary = (rules: GlossaryRule[]) => {
+    setGlossary(rules);
+    saveGlossary(rules);
+  };
+
+  // The vocabulary belongs to the open project, so keep its saved settings in step once typing pauses
+  const updateVocabulary = (text: string) => {
+    setVocabulary(text);
+    clearTimeout(vocabularySaveRef.current);
+    const id = projectIdRef.current;
+    if (!id) return;
+    vocabularySaveRef.current = setTimeout(() => {
+      updateProjectSettings(id, { vocabulary: text })
+        .catch(err => console.warn('Could not save the project vocabulary', err));
+    }, 800);
+  };
+
+  const applyGlossaryToTranscript = (): number => {
+    if (!transcription) return 0;
+    const result = applyGlossary(transcription, glossary);
+    if (result.count > 0) history.apply(result.transcription);
+    return result.count;
+  };
+
+  const updateCueOptions = (options: CueOptions) => {
+    setCueOptions(options);
+    localStorage.setItem('cueOptions', JSON.stringify(options));
+  };
+
+  const cues = useMemo(
+    () => transcription ? buildTrackCues(transcription, cueOptions) : [],
+    [transcription, cueOptions]
+  );
+
+  // Waveform peaks are only decoded once the timeline is opened, then kept for the file
+  useEffect(() => {
+    setPeaks(null);
+  }, [file]);
+
+  useEffect(() => {
+    if (!showTimeline || !file || peaks) return;
+    const controller = new AbortController();
+    computePeaks(file, controller.signal)
+      .then(setPeaks)
+      .catch(err => {
+        if (err.name !== 'AbortError') console.warn('Could not decode the waveform', err);
+      });
+    return () => controller.abort();
+  }, [showTimeline, file, peaks]);
+
+  const speakerColors = useMemo(
+    () => transcription ? speakerColorMap(transcription) : {},
+    [transcription]
+  );
+
+  const selectProject = (id: string | null) => {
+    projectIdRef.current = id;
+    setProjectId(id);
+  };
+
+  // Auto-save finished transcriptions (and every later edit) to the project library.
+  // Saves are queued so a slow first save can't create the same project twice.
+  useEffect(() => {
+    if (!transcription || !file || isProcessing || transcription === lastSavedRef.current) return;
+    const timer = setTimeout(() => {
+      saveQueueRef.current = saveQueueRef.current.then(async () => {
+        try {
+          lastSavedRef.current = transcription;
+          if (projectIdRef.current) {
+            await updateProject(projectIdRef.current, { transcription });
+          } else {
+            const project = await createProject(file, transcription, { model, language, device, vocabulary });
+            selectProject(project.id);
+          }
+          const estimate = await getStorageEstimate();
+          setStorageWarning(estimate && estimate.quota > 0 && estimate.usage / estimate.quota >= QUOTA_WARNING_RATIO
+            ? 'Browser storage is almost full. Delete old projects from the library to keep saving.'
+            : null);
+        } catch (err: any) {
+          setStorageWarning(isQuotaError(err)
+            ? 'Browser storage is full: this project could not be saved. Free up space in the library.'
+            : `Could not save project: ${err.message}`);
+        }
+      });
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [transcription, file, isProcessing]);
+
+  const openProject = async (id: string) => {
+    try {
+      const project = await getProject(id);
+      if (!project) throw new Error('Project not found.');
+      if (isProcessing) cancelProcessing();
+      setFile(new File([project.media], project.mediaName, { type: project.mediaType }));
+      setAudioUrl(URL.createObjectURL(project.media));
+      lastSavedRef.current = project.transcription;
+      setTranscription(project.transcription);
+      setSpeechRegions([]);
+      setDetectedLanguage(null);
+      setModel(project.settings.model);
+      setLanguage(project.settings.language);
+      setDevice(project.settings.device);
+      setVocabulary(project.settings.vocabulary ?? '');
+      selectProject(project.id);
+      history.reset();
+      setIsEditing(false);
+      setError(null);
+      setRunWarning(null);
+      setCurrentTime(0);
+      setShowLibrary(false);
+    } catch (err: any) {
+      setError(`Failed to open project: ${err.message}`);
+      setShowLibrary(false);
+    }
+  };
+
+  // Undo / redo shortcuts while editing the transcript
+  useEffect(() => {
+    if (!isEditing) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement)?.tagName === 'INPUT') return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isEditing, history]);
+
   const createWorker = useCallback(() => {
     const worker = new Worker(new URL('./worker.ts', import.meta.url), {
       type: 'module',
@@ -74,6 +333,16 @@ export default function App() {
 
     worker.addEventListener('message', (event) => {
       const data = event.data;
+      if (data.jobId === PREFETCH_JOB_ID) {
+        if (data.status === 'loaded' || data.status === 'error') {
+          setPrefetching(null);
+          setProgress(null);
+          if (data.status === 'error') setError(`Could not download the model: ${data.error}`);
+          refreshCachedModelsRef.current();
+        }
+        return;
+      }
+      if (batchHandlerRef.current(data)) return;
 
       if (data.status === 'init') {
         downloadsRef.current = {};
@@ -88,7 +357,7 @@ export default function App() {
 
         let globalLoaded = 0;
         let globalTotal = 0;
-        Object.values(downloadsRef.current).forEach(file => {
+        Object.values<{ loaded: number, total: number }>(downloadsRef.current).forEach(file => {
           globalLoaded += file.loaded || 0;
           globalTotal += file.total || 0;
         });
@@ -126,37 +395,53 @@ export default function App() {
         setProgress({ status: 'progress', file: data.file, progress: globalProgressRef.current.percentage });
       } else if (data.status === 'ready') {
         setProgress(data);
-        setDownloadedModels(prev => {
-          const currentModel = modelRef.current;
-          if (!prev.includes(currentModel)) {
-            const next = [...prev, currentModel];
-            localStorage.setItem('downloadedModels', JSON.stringify(next));
-            return next;
-          }
-          return prev;
+        markModelUsed(data.model ?? modelRef.current);
+        refreshCachedModelsRef.current();
+      } else if (data.status === 'draft') {
+        setTranscriptionProgress(prev => prev && { ...prev, draft: data.text });
+      } else if (data.status === 'partial') {
+        // Append the freshly transcribed window so the transcript grows while inference runs
+        setTranscription(prev => {
+          const chunks = [...(prev?.chunks ?? []), ...data.chunks];
+          const text = chunks.map(c => c.text ?? '').join('').trim();
+          return data.translation
+            ? { text, chunks, translation: [...(prev?.translation ?? []), ...data.translation] }
+            : { text, chunks };
         });
-      } else if (data.status === 'complete') {
-        // Heuristic Diarization (Pause-based)
-        let currentSpeaker = 1;
-        const processedChunks = data.output.chunks.map((chunk: any, i: number, arr: any[]) => {
-          if (i > 0) {
-            const prevEnd = arr[i - 1].timestamp[1];
-            const currentStart = chunk.timestamp[0];
-            if (currentStart - prevEnd > 1.5) { // 1.5s pause means new speaker
-              currentSpeaker = currentSpeaker === 1 ? 2 : 1;
-            }
-          }
-          return { ...chunk, speaker: `Speaker ${currentSpeaker}` };
+        setTranscriptionProgress({ processed: data.processed, total: data.total, draft: '' });
+      } else if (data.status === 'language') {
+        setDetectedLanguage(data.language);
+      } else if (data.status === 'vad') {
+        setSpeechRegions(prev => {
+          const next = prev.map(region => ({ ...region }));
+          data.regions.forEach((region: SpeechRegion) => addRegion(next, region));
+          return next;
         });
-
-        data.output.chunks = processedChunks;
+      } else if (data.status === 'live') {
+        setLiveTranscript(prev => prev && {
+          committed: [...prev.committed, ...data.committed],
+          tentative: data.tentative,
+          elapsed: data.processed
+        });
+      } else if (data.status === 'complete') {
+        setLiveTranscript(null);
         setTranscription(data.output);
         setIsProcessing(false);
         setProgress(null);
+        setTranscriptionProgress(null);
+      } else if (data.status === 'warning') {
+        setRunWarning(data.message);
       } else if (data.status === 'error') {
+        // Release the microphone if the live session failed
+        liveSessionRef.current?.stop();
+        liveSessionRef.current = null;
+        setIsRecording(false);
+        setLiveTranscript(null);
         setError(data.error);
+        setTranscription(null);
         setIsProcessing(false);
         setProgress(null);
+        setTranscriptionProgress(null);
       }
     });
 
@@ -171,6 +456,82 @@ export default function App() {
     };
   }, [createWorker]);
 
+  const restartWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = createWorker();
+  }, [createWorker]);
+
+  const models = useMemo(() => listModels(modelRegistry), [modelRegistry]);
+  // "(Ready)" reflects what is actually in Cache Storage, so evicted or deleted models drop out
+  const downloadedModels: string[] = useMemo(
+    () => models.filter((entry: ModelEntry) => isModelCached(entry, cachedModels)).map((entry: ModelEntry) => entry.id),
+    [models, cachedModels]
+  );
+  const transcriptionSettings = useMemo(() => {
+    const entry = models.find((m: { id: string }) => m.id === model);
+    const modelOptions = entry ? loadOptionsFor(entry, modelRegistry) : undefined;
+    return { model, modelOptions, language, device, task, diarization, numSpeakers, vad, vocabulary, glossary };
+  }, [model, models, modelRegistry, language, device, task, diarization, numSpeakers, vad, vocabulary, glossary]);
+  const batch = useBatchQueue({ workerRef, restartWorker, settings: transcriptionSettings });
+
+  // Downloads a model into the browser cache through the idle worker so it works offline later
+  const prefetchModel = (entry: ModelEntry) => {
+    if (!workerRef.current || prefetching || isProcessing || isRecording || batch.isRunning) return;
+    downloadsRef.current = {};
+    globalProgressRef.current = { time: Date.now(), loaded: 0, speed: 0, percentage: 0 };
+    setError(null);
+    setPrefetching(entry.id);
+    workerRef.current.postMessage({
+      type: 'load',
+      jobId: PREFETCH_JOB_ID,
+      model: entry.id,
+      modelOptions: loadOptionsFor(entry, modelRegistry),
+      device,
+      diarization
+    });
+  };
+  batchHandlerRef.current = batch.handleWorkerMessage;
+
+  const openBatchItem = (item: BatchItem) => {
+    if (!item.transcription) return;
+    setFile(item.file);
+    setAudioUrl(URL.createObjectURL(item.file));
+    lastSavedRef.current = item.transcription;
+    setTranscription(item.transcription);
+    setSpeechRegions([]);
+    setDetectedLanguage(null);
+    selectProject(item.projectId ?? null);
+    history.reset();
+    setIsEditing(false);
+    setError(null);
+    setCurrentTime(0);
+  };
+
+  const search = useMemo(
+    () => searchTranscript(transcription?.chunks ?? [], searchQuery, searchOptions),
+    [transcription, searchQuery, searchOptions]
+  );
+  const searchHits: Map<number, number> = useMemo(() => hitsByWord(search.hits), [search]);
+  // Recordings from MediaRecorder often report an infinite duration
+  const timelineDuration = isFinite(mediaDuration) && mediaDuration > 0
+    ? mediaDuration
+    : Math.max(transcriptionProgress?.total ?? 0, transcription ? wordEnd(transcription.chunks[transcription.chunks.length - 1] ?? {}) : 0);
+
+  // Script words alignment mode could not place
+  const unalignedWords: number[] = useMemo(
+    () => transcription ? transcription.chunks.flatMap((chunk, i) => chunk.unaligned ? [i] : []) : [],
+    [transcription]
+  );
+
+  useEffect(() => {
+    setActiveHit(-1);
+  }, [searchQuery, searchOptions]);
+
+  // Bring the current hit into view; seeking makes it the active word as well
+  useEffect(() => {
+    document.querySelector('[data-search-active="true"]')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeHit]);
+
   // Karaoke Auto-scroll
   useEffect(() => {
     if (activeTab === 'karaoke' && karaokeRef.current) {
@@ -185,11 +546,24 @@ export default function App() {
   const handleTimeUpdate = () => {
     if (audioRef.current) {
       setCurrentTime(audioRef.current.currentTime);
+      if (stopAtRef.current !== null && audioRef.current.currentTime >= stopAtRef.current) {
+        stopAtRef.current = null;
+        audioRef.current.pause();
+      } else if (loop && audioRef.current.currentTime >= loop.end) {
+        audioRef.current.currentTime = loop.start;
+      }
     }
   };
 
+  // Seeking away from a loop ends it
+  const leaveLoop = (time: number) => {
+    if (loop && (time < loop.start || time > loop.end)) setLoop(null);
+  };
+
   // Handle word click to seek
   const handleWordClick = (start: number) => {
+    stopAtRef.current = null;
+    leaveLoop(start);
     if (audioRef.current) {
       audioRef.current.currentTime = start;
       if (!isPlaying) {
@@ -197,42 +571,181 @@ export default function App() {
       }
     }
   };
+  // Move the playhead without starting playback
+  const seekTo = (time: number) => {
+    stopAtRef.current = null;
+    leaveLoop(time);
+    if (audioRef.current) audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+  const playRange = (start: number, end: number) => {
+    if (!audioRef.current) return;
+    setLoop(null);
+    audioRef.current.currentTime = start;
+    stopAtRef.current = end;
+    audioRef.current.play();
+  };
+
+  const handleWordClickRef = useRef(handleWordClick);
+  handleWordClickRef.current = handleWordClick;
 
-  // Decode audio/video file to Float32Array
-  const decodeAudio = async (file: File): Promise<Float32Array> => {
-    const arrayBuffer = await file.arrayBuffer();
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-    return audioBuffer.getChannelData(0);
+  const updatePlayback = (settings: PlaybackSettings) => {
+    setPlayback(settings);
+    savePlayback(settings);
   };
 
-  const cancelProcessing = () => {
-    if (workerRef.current) {
-      workerRef.current.terminate();
+  const updateShortcuts = (next: ShortcutMap) => {
+    setShortcuts(next);
+    saveShortcuts(next);
+  };
+
+  const updateCaptionStyle = (style: CaptionStyle) => {
+    setCaptionStyle(style);
+    saveCaptionStyle(style);
+  };
+
+  // Changing the source resets the rate, so it is reapplied whenever the media (re)loads
+  const applyPlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.defaultPlaybackRate = playback.rate;
+    audio.playbackRate = playback.rate;
+    audio.preservesPitch = playback.preservePitch;
+  };
+
+  useEffect(applyPlayback, [playback]);
+
+  const isVideo = !!file?.type.startsWith('video/');
+  const mediaEvents = {
+    onPlay: () => setIsPlaying(true),
+    onPause: () => setIsPlaying(false),
+    onEnded: () => setIsPlaying(false),
+    onTimeUpdate: handleTimeUpdate,
+    onLoadedMetadata: () => {
+      setMediaDuration(audioRef.current?.duration || 0);
+      applyPlayback();
+    },
+  };
+
+  // Resuming steps back a little (never before the loop start) so the last words are heard again
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (!audio.paused) {
+      audio.pause();
+      return;
     }
-    workerRef.current = createWorker();
+    if (playback.autoRewind > 0 && audio.currentTime > 0) {
+      audio.currentTime = Math.max(loop?.start ?? 0, audio.currentTime - playback.autoRewind);
+    }
+    audio.play();
+  };
+
+  const startLoop = (start: number, end: number, label: string) => {
+    if (!audioRef.current) return;
+    stopAtRef.current = null;
+    setLoopHint(null);
+    setLoop({ start, end, label });
+    audioRef.current.currentTime = start;
+    audioRef.current.play();
+  };
+
+  const showLoopHint = (hint: string) => {
+    setLoopHint(hint);
+    setTimeout(() => setLoopHint(current => current === hint ? null : current), 2500);
+  };
+
+  const jumpTo = (turnsOnly: boolean, direction: 1 | -1) => {
+    if (!transcription) return;
+    const chunks = transcription.chunks;
+    const index = adjacentStart(chunks, segmentStarts(chunks, turnsOnly), currentTime, direction);
+    if (index !== null) seekTo(wordStart(chunks[index]));
+  };
+
+  const stepRate = (direction: 1 | -1) => {
+    const index = PLAYBACK_RATES.findIndex(rate => rate >= playback.rate);
+    const next = PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, Math.max(0, (index < 0 ? PLAYBACK_RATES.length - 1 : index) + direction))];
+    updatePlayback({ ...playback, rate: next });
+  };
+
+  const playbackActions: Record<ShortcutAction, () => void> = {
+    togglePlay,
+    rewind: () => seekTo(Math.max(0, currentTime - playback.skip)),
+    forward: () => seekTo(currentTime + playback.skip),
+    slower: () => stepRate(-1),
+    faster: () => stepRate(1),
+    loopWord: () => {
+      const chunks = transcription?.chunks ?? [];
+      const index = wordIndexAt(chunks, currentTime);
+      if (index < 0) return showLoopHint('No word at the playhead');
+      startLoop(Math.max(0, wordStart(chunks[index]) - LOOP_WORD_PADDING_S), wordEnd(chunks[index]) + LOOP_WORD_PADDING_S, `"${wordText(chunks[index]).trim()}"`);
+    },
+    loopSentence: () => {
+      const chunks = transcription?.chunks ?? [];
+      const index = wordIndexAt(chunks, currentTime);
+      if (index < 0) return showLoopHint('No sentence at the playhead');
+      const [first, last] = sentenceAround(chunks, index);
+      startLoop(wordStart(chunks[first]), wordEnd(chunks[last]), 'sentence');
+    },
+    loopSelection: () => {
+      const chunks = transcription?.chunks ?? [];
+      const range = selectedWordRange();
+      if (!range || !chunks[range[1]]) return showLoopHint('Select words in the transcript first');
+      const [first, last] = range;
+      startLoop(wordStart(chunks[first]), wordEnd(chunks[last]), `${last - first + 1} ${last === first ? 'word' : 'words'}`);
+    },
+    stopLoop: () => setLoop(null),
+    prevSegment: () => jumpTo(false, -1),
+    nextSegment: () => jumpTo(false, 1),
+    prevTurn: () => jumpTo(true, -1),
+    nextTurn: () => jumpTo(true, 1),
+  };
+
+  // Active whenever there is media to play and no dialog is taking keyboard input
+  useShortcuts(shortcuts, playbackActions, !!transcription && !showShortcuts);
+
+  const stepSearch = useCallback((direction: 1 | -1) => {
+    const count = search.hits.length;
+    if (count === 0) return;
+    const next = activeHit < 0 ? (direction === 1 ? 0 : count - 1) : (activeHit + direction + count) % count;
+    setActiveHit(next);
+    handleWordClickRef.current(search.hits[next].start);
+  }, [search, activeHit]);
+
+  const cancelProcessing = () => {
+    transcriptionRunRef.current?.abort();
+    transcriptionRunRef.current = null;
+    restartWorker();
+    setTranscription(null);
     setIsProcessing(false);
     setProgress(null);
+    setTranscriptionProgress(null);
     setError("Processing cancelled by user.");
   };
 
   const startTranscription = async () => {
     if (!file) return;
     setError(null);
+    setRunWarning(null);
+    setTranscription(null);
+    history.reset();
+    setIsEditing(false);
     setIsProcessing(true);
     setProgress({ status: 'init', name: 'Preparing media...' });
+    setSpeechRegions([]);
+    setDetectedLanguage(null);
 
+    const run = new AbortController();
+    transcriptionRunRef.current = run;
     try {
-      const audioData = await decodeAudio(file);
-
-      // Send data to worker
-      workerRef.current?.postMessage({
-        audio: audioData,
-        model: model,
-        language: language,
-        device: device
-      });
+      if (!workerRef.current) throw new Error('Worker is not ready.');
+      // Audio is decoded and sent to the worker window by window as it asks for more
+      const { duration } = await startStreamingTranscription(workerRef.current, file, { ...transcriptionSettings, reference }, undefined, run.signal);
+      if (run.signal.aborted) return;
+      setTranscriptionProgress({ processed: 0, total: duration, draft: '' });
     } catch (err: any) {
+      // cancelProcessing() has already reset the state
+      if (run.signal.aborted) return;
       setError(`Failed to process media: ${err.message}`);
       setIsProcessing(false);
     }
@@ -247,90 +760,114 @@ export default function App() {
     setFile(selectedFile);
     setAudioUrl(URL.createObjectURL(selectedFile));
     setTranscription(null);
+    setReference('');
+    setLoop(null);
+    setSpeechRegions([]);
+    setDetectedLanguage(null);
+    history.reset();
+    selectProject(null);
     setError(null);
+    setRunWarning(null);
   };
 
   // Handle file upload
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = event.target.files?.[0];
-    if (selectedFile) handleFileSelection(selectedFile);
+    const selectedFiles: File[] = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    // Several files at once go to the batch queue
+    if (selectedFiles.length > 1) {
+      if (batch.addFiles(selectedFiles) < selectedFiles.length) {
+        setError('Some files were skipped because they are not audio or video files.');
+      }
+    } else if (selectedFiles[0]) {
+      handleFileSelection(selectedFiles[0]);
+    }
+  };
+
+  // Load a previously exported SRT / VTT / JSON transcript for the selected media
+  const handleTranscriptImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const transcriptFile = event.target.files?.[0];
+    event.target.value = '';
+    if (!transcriptFile) return;
+    try {
+      setTranscription(await importTranscript(transcriptFile));
+      history.reset();
+      setError(null);
+    } catch (err: any) {
+      setError(`Failed to import transcript: ${err.message}`);
+    }
   };
 
-  // Handle Microphone Recording
+  // Live microphone transcription: text streams in while recording, the worker finishes the tail on stop
   const toggleRecording = async () => {
     if (isRecording) {
-      mediaRecorderRef.current?.stop();
+      const live = liveSessionRef.current;
+      liveSessionRef.current = null;
       setIsRecording(false);
+      if (!live) return;
+      setIsProcessing(true);
+      setProgress({ status: 'ready' });
+      const recording = await live.stop();
+      setFile(recording);
+      setAudioUrl(URL.createObjectURL(recording));
     } else {
+      // The worker runs one session at a time
+      if (batch.isRunning) {
+        setError('Stop the batch queue before starting a live recording.');
+        return;
+      }
+      setError(null);
+      setRunWarning(null);
+      setTranscription(null);
+      history.reset();
+      selectProject(null);
+      setIsEditing(false);
+      setDetectedLanguage(null);
       try {
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        const mediaRecorder = new MediaRecorder(stream);
-        mediaRecorderRef.current = mediaRecorder;
-        audioChunksRef.current = [];
-
-        mediaRecorder.ondataavailable = (e) => {
-          if (e.data.size > 0) audioChunksRef.current.push(e.data);
-        };
-
-        mediaRecorder.onstop = () => {
-          const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-          const recordingFile = new File([audioBlob], "live_recording.webm", { type: 'audio/webm' });
-          handleFileSelection(recordingFile);
-          stream.getTracks().forEach(track => track.stop());
-        };
-
-        mediaRecorder.start();
+        if (!workerRef.current) throw new Error('Worker is not ready.');
+        liveSessionRef.current = await startLiveTranscription(workerRef.current, transcriptionSettings);
+        setLiveTranscript({ committed: [], tentative: '', elapsed: 0 });
         setIsRecording(true);
-      } catch (err) {
-        setError("Microphone access denied or not available.");
+      } catch (err: any) {
+        setError(err?.name === 'NotAllowedError' || err?.name === 'NotFoundError'
+          ? "Microphone access denied or not available."
+          : `Could not start live transcription: ${err?.message ?? err}`);
       }
     }
   };
 
-  // Export SRT / VTT
-  const formatTimestamp = (seconds: number, isSRT: boolean) => {
-    const date = new Date(seconds * 1000);
-    const hh = String(date.getUTCHours()).padStart(2, '0');
-    const mm = String(date.getUTCMinutes()).padStart(2, '0');
-    const ss = String(date.getUTCSeconds()).padStart(2, '0');
-    const ms = String(date.getUTCMilliseconds()).padStart(3, '0');
-    return isSRT ? `${hh}:${mm}:${ss},${ms}` : `${hh}:${mm}:${ss}.${ms}`;
-  };
-
-  const exportSubs = (format: 'srt' | 'vtt') => {
+  // Export through the exporter registry (SRT, VTT, TXT, Markdown, CSV, ASS, ...)
+  const exportTranscript = (exporterId: string) => {
     if (!transcription) return;
-    let content = format === 'vtt' ? 'WEBVTT\n\n' : '';
-
-    transcription.chunks.forEach((chunk, i) => {
-      const start = chunk.timestamp?.[0] ?? 0;
-      const end = chunk.timestamp?.[1] ?? start + 1;
-      const text = chunk.text ?? chunk.word ?? '';
-
-      content += format === 'srt' ? `${i + 1}\n` : '';
-      content += `${formatTimestamp(start, format === 'srt')} --> ${formatTimestamp(end, format === 'srt')}\n`;
-      content += `${text.trim()}\n\n`;
-    });
-
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `transcript.${format}`;
-    a.click();
+    const { content, filename, mimeType } = runExporter(exporterId, transcription, { cueOptions });
+    downloadFile(content, filename, mimeType);
   };
 
   const resetApp = () => {
     setFile(null);
     setAudioUrl(null);
     setTranscription(null);
+    setReference('');
+    setLoop(null);
+    setSpeechRegions([]);
+    setDetectedLanguage(null);
+    history.reset();
+    selectProject(null);
+    setStorageWarning(null);
+    setIsEditing(false);
     setError(null);
+    setRunWarning(null);
     setProgress(null);
+    setTranscriptionProgress(null);
     setIsProcessing(false);
     setCurrentTime(0);
     setIsPlaying(false);
     if (isRecording) {
-      mediaRecorderRef.current?.stop();
+      liveSessionRef.current?.stop();
+      liveSessionRef.current = null;
+      restartWorker();
       setIsRecording(false);
+      setLiveTranscript(null);
     }
   };
 
@@ -344,6 +881,21 @@ export default function App() {
             <span>Word Timestamp Tester</span>
           </div>
           <nav className="flex items-center gap-4">
+            {!isOnline && (
+              <span
+                className="flex items-center gap-1.5 text-xs font-medium text-amber-400 bg-amber-500/10 border border-amber-500/20 px-2.5 py-1 rounded-full"
+                title="Only models downloaded for offline use are available"
+              >
+                <WifiOff className="w-3.5 h-3.5" /> Offline
+              </span>
+            )}
+            <button
+              onClick={() => setShowLibrary(true)}
+              className="text-[var(--muted-foreground)] hover:text-[var(--foreground)] transition-colors p-2 rounded-md hover:bg-[var(--secondary)]"
+              title="Project Library"
+            >
+              <Library className="w-5 h-5" />
+            </button>
             <button
               onClick={() => setShowInfo(true)}
               className="text-[var(--muted-foreground)] hover:text-[var(--foreground)] transition-colors p-2 rounded-md hover:bg-[var(--secondary)]"
@@ -386,38 +938,55 @@ export default function App() {
                 className="bg-[var(--card)] border border-[var(--border)] rounded-[var(--radius)] p-8 shadow-sm"
               >
                 {/* Settings Row */}
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+                <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 mb-8">
                   <div className="flex flex-col gap-2">
                     <label className="text-xs font-medium text-[var(--muted-foreground)] uppercase tracking-wider">Language</label>
+                    <LanguagePicker value={language} onChange={setLanguage} />
+                  </div>
+
+                  <div className="flex flex-col gap-2">
+                    <label className="flex items-center justify-between text-xs font-medium text-[var(--muted-foreground)] uppercase tracking-wider">
+                      Model
+                      <span className="flex items-center gap-2">
+                        <button onClick={() => setShowModelCache(true)} title="Downloaded models" className="hover:text-[var(--foreground)] transition-colors">
+                          <HardDrive className="w-3.5 h-3.5" />
+                        </button>
+                        <button onClick={() => setShowModels(true)} title="Manage models" className="hover:text-[var(--foreground)] transition-colors">
+                          <Boxes className="w-3.5 h-3.5" />
+                        </button>
+                      </span>
+                    </label>
                     <div className="flex items-center gap-2 bg-[var(--secondary)] px-3 py-2.5 rounded-lg border border-[var(--border)]">
-                      <Globe className="w-4 h-4 text-[var(--muted-foreground)]" />
+                      <Cpu className="w-4 h-4 text-[var(--muted-foreground)]" />
                       <select
-                        value={language}
-                        onChange={(e) => setLanguage(e.target.value)}
+                        value={model}
+                        onChange={(e) => setModel(e.target.value)}
                         className="bg-transparent border-none text-sm font-medium text-[var(--foreground)] focus:ring-0 outline-none cursor-pointer w-full"
                       >
-                        <option value="english" className="bg-[var(--card)] text-[var(--foreground)]">English</option>
-                        <option value="turkish" className="bg-[var(--card)] text-[var(--foreground)]">Türkçe</option>
-                        <option value="spanish" className="bg-[var(--card)] text-[var(--foreground)]">Español</option>
-                        <option value="french" className="bg-[var(--card)] text-[var(--foreground)]">Français</option>
-                        <option value="german" className="bg-[var(--card)] text-[var(--foreground)]">Deutsch</option>
-                        <option value="italian" className="bg-[var(--card)] text-[var(--foreground)]">Italiano</option>
+                        {models.map((entry: ModelEntry) => (
+                          <option key={entry.id} value={entry.id} className="bg-[var(--card)] text-[var(--foreground)]">
+                            {entry.label} (~{formatBytes(estimateDownloadBytes(entry))}) {downloadedModels.includes(entry.id) ? '(Ready)' : ''}
+                          </option>
+                        ))}
+                        {!models.some((entry: ModelEntry) => entry.id === model) && (
+                          <option value={model} className="bg-[var(--card)] text-[var(--foreground)]">{model.split('/').pop()}</option>
+                        )}
                       </select>
                     </div>
                   </div>
 
                   <div className="flex flex-col gap-2">
-                    <label className="text-xs font-medium text-[var(--muted-foreground)] uppercase tracking-wider">Model Size</label>
+                    <label className="text-xs font-medium text-[var(--muted-foreground)] uppercase tracking-wider">Task</label>
                     <div className="flex items-center gap-2 bg-[var(--secondary)] px-3 py-2.5 rounded-lg border border-[var(--border)]">
-                      <Cpu className="w-4 h-4 text-[var(--muted-foreground)]" />
+                      <Languages className="w-4 h-4 text-[var(--muted-foreground)]" />
                       <select
-                        value={model}
-                        onChange={(e) => setModel(e.target.value)}
+                        value={task}
+                        onChange={(e) => setTask(e.target.value as WhisperTask)}
                         className="bg-transparent border-none text-sm font-medium text-[var(--foreground)] focus:ring-0 outline-none cursor-pointer w-full"
                       >
-                        <option value="Xenova/whisper-tiny" className="bg-[var(--card)] text-[var(--foreground)]">Tiny (~73MB) - Fast {downloadedModels.includes('Xenova/whisper-tiny') ? '(Ready)' : ''}</option>
-                        <option value="Xenova/whisper-base" className="bg-[var(--card)] text-[var(--foreground)]">Base (~145MB) - Balanced {downloadedModels.includes('Xenova/whisper-base') ? '(Ready)' : ''}</option>
-                        <option value="Xenova/whisper-small" className="bg-[var(--card)] text-[var(--foreground)]">Small (~483MB) - Accurate {downloadedModels.includes('Xenova/whisper-small') ? '(Ready)' : ''}</option>
+                        <option value="transcribe" className="bg-[var(--card)] text-[var(--foreground)]">Transcribe</option>
+                        <option value="translate" className="bg-[var(--card)] text-[var(--foreground)]">Translate to English</option>
+                        <option value="both" className="bg-[var(--card)] text-[var(--foreground)]">Both (Bilingual)</option>
                       </select>
                     </div>
                   </div>
@@ -436,6 +1005,47 @@ export default function App() {
                       </select>
                     </div>
                   </div>
+
+                  <div className="flex flex-col gap-2">
+                    <label className="text-xs font-medium text-[var(--muted-foreground)] uppercase tracking-wider">Speakers</label>
+                    <div className="flex items-center gap-2 bg-[var(--secondary)] px-3 py-2.5 rounded-lg border border-[var(--border)]">
+                      <Users className="w-4 h-4 text-[var(--muted-foreground)]" />
+                      <select
+                        value={diarization === 'pause' ? 'pause' : String(numSpeakers)}
+                        onChange={(e) => {
+                          if (e.target.value === 'pause') {
+                            setDiarization('pause');
+                          } else {
+                            setDiarization('embedding');
+                            setNumSpeakers(Number(e.target.value));
+                          }
+                        }}
+                        className="bg-transparent border-none text-sm font-medium text-[var(--foreground)] focus:ring-0 outline-none cursor-pointer w-full"
+                      >
+                        <option value="0" className="bg-[var(--card)] text-[var(--foreground)]">Auto-detect (Voice embeddings)</option>
+                        {[1, 2, 3, 4, 5, 6, 7, 8].map(n => (
+                          <option key={n} value={n} className="bg-[var(--card)] text-[var(--foreground)]">{n} {n === 1 ? 'Speaker' : 'Speakers'}</option>
+                        ))}
+                        <option value="pause" className="bg-[var(--card)] text-[var(--foreground)]">Pause heuristic (No extra model)</option>
+                      </select>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-4 -mt-4 mb-8">
+                  <label className="flex items-center gap-2 text-sm text-[var(--muted-foreground)] cursor-pointer w-fit">
+                    <input type="checkbox" checked={vad} onChange={(e) => setVad(e.target.checked)} />
+                    Skip silence before transcribing (voice activity detection)
+                  </label>
+                  <button
+                    onClick={() => setShowVocabulary(true)}
+                    className="flex items-center gap-2 text-sm text-[var(--muted-foreground)] hover:text-[var(--foreground)] transition-colors"
+                  >
+                    <BookA size={16} /> Vocabulary & glossary
+                    {(vocabulary.trim() || glossary.some(rule => rule.enabled)) && (
+                      <span className="text-xs font-mono">({glossary.filter(rule => rule.enabled).length} rules{vocabulary.trim() ? ', prompt set' : ''})</span>
+                    )}
+                  </button>
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -446,6 +1056,7 @@ export default function App() {
                   >
                     <input
                       type="file"
+                      multiple
                       accept="audio/*,video/mp4,video/webm,video/ogg"
                       onChange={handleFileUpload}
                       className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
@@ -456,6 +1067,7 @@ export default function App() {
                       </div>
                       <h3 className="text-lg font-medium mb-2">Upload Media</h3>
                       <p className="text-sm text-[var(--muted-foreground)]">WAV, MP3, MP4, WebM</p>
+                      <p className="text-xs text-[var(--muted-foreground)] mt-1">Drop several files to queue them</p>
                     </div>
                   </motion.div>
 
@@ -474,10 +1086,18 @@ export default function App() {
                     </div>
                     <h3 className="text-lg font-medium mb-2">{isRecording ? 'Recording...' : 'Live Record'}</h3>
                     <p className="text-sm text-[var(--muted-foreground)]">
-                      {isRecording ? 'Click to stop and transcribe' : 'Use your microphone'}
+                      {isRecording ? 'Click to stop and finish the transcript' : 'Transcribe your microphone live'}
                     </p>
                   </motion.div>
                 </div>
+
+                {isRecording && liveTranscript && (
+                  <LiveTranscriptPanel live={liveTranscript} progress={progress} />
+                )}
+
+                {batch.items.length > 0 && (
+                  <BatchQueuePanel batch={batch} cueOptions={cueOptions} disabled={isProcessing || isRecording} onOpen={openBatchItem} />
+                )}
               </motion.div>
             )}
 
@@ -496,8 +1116,10 @@ export default function App() {
                 </div>
                 <h2 className="text-2xl font-semibold tracking-tight mb-2 truncate max-w-md mx-auto">{file.name}</h2>
                 <p className="text-[var(--muted-foreground)] mb-8">
-                  Ready to transcribe using <strong>{model.split('/')[1]}</strong> on <strong>{device.toUpperCase()}</strong>
+                  Ready to transcribe using <strong>{model.split('/').pop()}</strong> on <strong>{device.toUpperCase()}</strong>
+                  <span className="block text-sm mt-1">or import an existing SRT, VTT or JSON transcript to review it.</span>
                 </p>
+                <ReferenceScript value={reference} onChange={setReference} />
                 <div className="flex items-center justify-center gap-4">
                   <button
                     onClick={resetApp}
@@ -505,19 +1127,31 @@ export default function App() {
                   >
                     Cancel
                   </button>
+                  <label className="px-6 py-3 bg-[var(--secondary)] text-[var(--foreground)] rounded-xl font-medium hover:bg-[var(--border)] transition-colors flex items-center gap-2 cursor-pointer">
+                    <FileUp className="w-5 h-5" />
+                    Import Transcript
+                    <input
+                      type="file"
+                      accept=".srt,.vtt,.json"
+                      onChange={handleTranscriptImport}
+                      className="hidden"
+                    />
+                  </label>
                   <button
                     onClick={startTranscription}
-                    className="px-6 py-3 bg-[var(--foreground)] text-[var(--background)] rounded-xl font-medium hover:opacity-90 transition-opacity flex items-center gap-2 shadow-lg shadow-[var(--foreground)]/10"
+                    disabled={batch.isRunning}
+                    title={batch.isRunning ? 'Wait for the batch queue to finish' : undefined}
+                    className="px-6 py-3 bg-[var(--foreground)] text-[var(--background)] rounded-xl font-medium hover:opacity-90 transition-opacity flex items-center gap-2 shadow-lg shadow-[var(--foreground)]/10 disabled:opacity-40"
                   >
-                    <PlayCircle className="w-5 h-5" />
-                    Start Transcription
+                    {reference.trim() ? <ScrollText className="w-5 h-5" /> : <PlayCircle className="w-5 h-5" />}
+                    {reference.trim() ? 'Align Script' : 'Start Transcription'}
                   </button>
                 </div>
               </motion.div>
             )}
 
             {/* Processing State */}
-            {isProcessing && progress && (
+            {isProcessing && progress && !transcription && (
               <motion.div
                 key="processing"
                 initial={{ opacity: 0, y: 20 }}
@@ -566,6 +1200,10 @@ export default function App() {
                   <p className="text-[var(--muted-foreground)] text-sm mt-4">This might take a moment depending on your device and model size...</p>
                 )}
 
+                {progress.status === 'ready' && transcriptionProgress?.draft && (
+                  <p className="text-[var(--muted-foreground)] text-sm mt-4 italic max-w-lg line-clamp-3">{transcriptionProgress.draft}</p>
+                )}
+
                 <button
                   onClick={cancelProcessing}
                   className="mt-8 px-4 py-2 bg-red-950/30 text-red-400 border border-red-900/50 rounded-lg text-sm font-medium hover:bg-red-900/50 transition-colors flex items-center gap-2"
@@ -605,16 +1243,27 @@ export default function App() {
                 transition={{ duration: 0.4, ease: "easeOut" }}
                 className="space-y-6"
               >
+                {isVideo && (
+                  <VideoPreview
+                    src={audioUrl || ''}
+                    mediaRef={audioRef as React.RefObject<HTMLVideoElement | null>}
+                    mediaEvents={mediaEvents}
+                    cues={cues}
+                    speakerLabels={cueOptions.speakerLabels}
+                    speakerColors={speakerColors}
+                    language={(transcription.language ?? detectedLanguage)?.code}
+                    currentTime={currentTime}
+                    style={captionStyle}
+                    onStyleChange={updateCaptionStyle}
+                    onTogglePlay={togglePlay}
+                  />
+                )}
+
                 {/* Audio Player Card */}
                 <div className="bg-[var(--card)] border border-[var(--border)] rounded-[var(--radius)] p-5 flex items-center gap-5 shadow-sm">
                   <motion.button
                     whileTap={{ scale: 0.95 }}
-                    onClick={() => {
-                      if (audioRef.current) {
-                        if (isPlaying) audioRef.current.pause();
-                        else audioRef.current.play();
-                      }
-                    }}
+                    onClick={togglePlay}
                     className="w-12 h-12 flex-shrink-0 bg-[var(--foreground)] text-[var(--background)] rounded-full flex items-center justify-center hover:opacity-90 transition-opacity"
                   >
                     {isPlaying ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" className="ml-1" />}
@@ -624,18 +1273,30 @@ export default function App() {
                     <p className="font-medium truncate text-[var(--foreground)]">{file.name}</p>
                     <p className="text-sm text-[var(--muted-foreground)] font-mono mt-0.5">
                       {audioRef.current ? formatTime(currentTime) : '0:00'} / {audioRef.current ? formatTime(audioRef.current.duration || 0) : '0:00'}
+                      {(transcription.language ?? detectedLanguage) && (
+                        <span className="font-sans"> · Detected {describeDetectedLanguage((transcription.language ?? detectedLanguage)!)}</span>
+                      )}
                     </p>
                   </div>
 
-                  <audio
-                    ref={audioRef}
-                    src={audioUrl || ''}
-                    onPlay={() => setIsPlaying(true)}
-                    onPause={() => setIsPlaying(false)}
-                    onEnded={() => setIsPlaying(false)}
-                    onTimeUpdate={handleTimeUpdate}
-                    className="hidden"
-                  />
+                  {!isVideo && (
+                    <audio
+                      ref={audioRef as React.RefObject<HTMLAudioElement | null>}
+                      src={audioUrl || ''}
+                      {...mediaEvents}
+                      className="hidden"
+                    />
+                  )}
+
+                  <motion.button
+                    whileTap={{ scale: 0.95 }}
+                    onClick={() => setShowTimeline(!showTimeline)}
+                    title="Waveform timeline"
+                    className={`flex items-center gap-2 px-4 py-2.5 text-sm font-medium rounded-lg transition-colors ${showTimeline ? 'bg-[var(--foreground)] text-[var(--background)]' : 'text-[var(--foreground)] bg-[var(--secondary)] hover:bg-[var(--border)]'}`}
+                  >
+                    <AudioWaveform size={16} />
+                    <span className="hidden sm:inline">Timeline</span>
+                  </motion.button>
 
                   <motion.button
                     whileTap={{ scale: 0.95 }}
@@ -647,6 +1308,86 @@ export default function App() {
                   </motion.button>
                 </div>
 
+                {(transcription.speechRegions ?? speechRegions).length > 0 && (
+                  <SpeechActivityBar
+                    regions={transcription.speechRegions ?? speechRegions}
+                    duration={timelineDuration}
+                    currentTime={currentTime}
+                    onSeek={handleWordClick}
+                  />
+                )}
+
+                <PlaybackControls
+                  settings={playback}
+                  onSettingsChange={updatePlayback}
+                  loop={loop}
+                  hint={loopHint}
+                  shortcuts={shortcuts}
+                  onAction={(action: ShortcutAction) => playbackActions[action]()}
+                  onShowShortcuts={() => setShowShortcuts(true)}
+                />
+
+                {showTimeline && (
+                  <Timeline
+                    transcription={transcription}
+                    peaks={peaks}
+                    duration={timelineDuration}
+                    currentTime={currentTime}
+                    isPlaying={isPlaying}
+                    speakerColors={speakerColors}
+                    onSeek={seekTo}
+                    onPlayRange={playRange}
+                    onEdit={isProcessing ? undefined : history.apply}
+                  />
+                )}
+
+                {storageWarning && (
+                  <div className="bg-amber-950/30 border border-amber-900/50 rounded-[var(--radius)] px-5 py-3 text-sm text-amber-400 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    {storageWarning}
+                  </div>
+                )}
+
+                {runWarning && (
+                  <div className="bg-amber-950/30 border border-amber-900/50 rounded-[var(--radius)] px-5 py-3 text-sm text-amber-400 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    <span className="flex-1">{runWarning}</span>
+                    <button onClick={() => setRunWarning(null)} title="Dismiss" className="p-1 hover:text-amber-200 transition-colors">
+                      <X size={14} />
+                    </button>
+                  </div>
+                )}
+
+                {/* Live Transcription Progress */}
+                {isProcessing && transcriptionProgress && (
+                  <div className="bg-[var(--card)] border border-[var(--border)] rounded-[var(--radius)] p-5 shadow-sm">
+                    <div className="flex items-center justify-between gap-4 text-sm text-[var(--muted-foreground)] mb-3">
+                      <span className="flex items-center gap-2 text-[var(--foreground)] font-medium">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        Transcribing Media...
+                      </span>
+                      <div className="flex items-center gap-4">
+                        <span className="font-mono">
+                          {formatTime(transcriptionProgress.processed)} / {formatTime(transcriptionProgress.total)}
+                        </span>
+                        <button
+                          onClick={cancelProcessing}
+                          className="px-3 py-1.5 bg-red-950/30 text-red-400 border border-red-900/50 rounded-lg text-xs font-medium hover:bg-red-900/50 transition-colors flex items-center gap-1.5"
+                        >
+                          <XCircle className="w-3.5 h-3.5" />
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                    <div className="h-2 bg-[var(--secondary)] rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-[var(--foreground)] transition-all duration-300 ease-out"
+                        style={{ width: `${transcriptionProgress.total > 0 ? (transcriptionProgress.processed / transcriptionProgress.total) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+
                 {/* Transcription Card */}
                 <div className="bg-[var(--card)] border border-[var(--border)] rounded-[var(--radius)] overflow-hidden shadow-sm">
                   <div className="flex border-b border-[var(--border)] bg-[var(--background)]/50 overflow-x-auto custom-scrollbar">
@@ -675,6 +1416,148 @@ export default function App() {
 
                   <div className="p-8">
                     {activeTab === 'transcript' && (
+                      <div className="flex items-center justify-end gap-2 mb-4">
+                        {isEditing && (
+                          <>
+                            <button
+                              onClick={history.undo}
+                              disabled={!history.canUndo}
+                              title="Undo (Ctrl+Z)"
+                              className="p-2 bg-[var(--secondary)] text-[var(--foreground)] rounded-lg hover:bg-[var(--border)] transition-colors border border-[var(--border)] disabled:opacity-40"
+                            >
+                              <Undo2 size={16} />
+                            </button>
+                            <button
+                              onClick={history.redo}
+                              disabled={!history.canRedo}
+                              title="Redo (Ctrl+Y)"
+                              className="p-2 bg-[var(--secondary)] text-[var(--foreground)] rounded-lg hover:bg-[var(--border)] transition-colors border border-[var(--border)] disabled:opacity-40"
+                            >
+                              <Redo2 size={16} />
+                            </button>
+                          </>
+                        )}
+                        {!!transcription.translation?.length && !isEditing && (
+                          <button
+                            onClick={() => setShowBilingual(!showBilingual)}
+                            className={`p-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)] ${showBilingual ? 'bg-[var(--foreground)] text-[var(--background)]' : 'bg-[var(--secondary)] text-[var(--foreground)] hover:bg-[var(--border)]'}`}
+                          >
+                            <Languages size={16} /> Side by Side
+                          </button>
+                        )}
+                        {transcription.chunks.some(c => c.confidence !== undefined) && !isEditing && (
+                          <button
+                            onClick={() => setShowReview(!showReview)}
+                            disabled={isProcessing}
+                            className={`p-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)] disabled:opacity-40 ${showReview ? 'bg-[var(--foreground)] text-[var(--background)]' : 'bg-[var(--secondary)] text-[var(--foreground)] hover:bg-[var(--border)]'}`}
+                          >
+                            <ShieldAlert size={16} /> Review
+                          </button>
+                        )}
+                        {!isEditing && (
+                          <button
+                            onClick={() => setShowVocabulary(true)}
+                            disabled={isProcessing}
+                            title="Vocabulary & glossary"
+                            className="p-2 bg-[var(--secondary)] text-[var(--foreground)] rounded-lg hover:bg-[var(--border)] transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)] disabled:opacity-40"
+                          >
+                            <BookA size={16} /> Glossary
+                          </button>
+                        )}
+                        {!isEditing && file && (
+                          <button
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => { setClipSelection(selectedWordRange()); setShowClips(true); }}
+                            disabled={isProcessing}
+                            title="Export the selected words, every speaker turn or every search hit as audio clips"
+                            className="p-2 bg-[var(--secondary)] text-[var(--foreground)] rounded-lg hover:bg-[var(--border)] transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)] disabled:opacity-40"
+                          >
+                            <Scissors size={16} /> Clips
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setShowSpeakers(!showSpeakers)}
+                          disabled={isProcessing}
+                          className={`p-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)] disabled:opacity-40 ${showSpeakers ? 'bg-[var(--foreground)] text-[var(--background)]' : 'bg-[var(--secondary)] text-[var(--foreground)] hover:bg-[var(--border)]'}`}
+                        >
+                          <Users size={16} /> Speakers
+                        </button>
+                        <button
+                          onClick={() => setIsEditing(!isEditing)}
+                          disabled={isProcessing}
+                          className={`p-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)] disabled:opacity-40 ${isEditing ? 'bg-[var(--foreground)] text-[var(--background)]' : 'bg-[var(--secondary)] text-[var(--foreground)] hover:bg-[var(--border)]'}`}
+                        >
+                          <Pencil size={16} /> {isEditing ? 'Done Editing' : 'Edit'}
+                        </button>
+                      </div>
+                    )}
+
+                    {(activeTab === 'karaoke' || (activeTab === 'transcript' && !isEditing)) && (
+                      <SearchBar
+                        query={searchQuery}
+                        options={searchOptions}
+                        hitCount={search.hits.length}
+                        activeHit={activeHit}
+                        error={search.error}
+                        onQueryChange={setSearchQuery}
+                        onOptionsChange={setSearchOptions}
+                        onStep={stepSearch}
+                      />
+                    )}
+
+                    {activeTab === 'transcript' && !isEditing && !isProcessing && unalignedWords.length > 0 && (
+                      <div className="flex items-center justify-between gap-4 mb-6 p-3 rounded-xl border border-amber-400/30 bg-amber-400/10 text-sm">
+                        <span className="flex items-center gap-2">
+                          <ScrollText size={16} className="text-amber-400 shrink-0" />
+                          {unalignedWords.length} of {transcription.chunks.length} script words were not heard in the recording (skipped, reworded or misrecognised); their timings (dashed) are estimated.
+                        </span>
+                        <button
+                          onClick={() => {
+                            const next = unalignedWords.find((i: number) => wordStart(transcription.chunks[i]) > currentTime + 0.01) ?? unalignedWords[0];
+                            handleWordClick(wordStart(transcription.chunks[next]));
+                          }}
+                          className="px-3 py-1.5 bg-[var(--secondary)] rounded-lg border border-[var(--border)] font-medium whitespace-nowrap hover:bg-[var(--border)] transition-colors"
+                        >
+                          Next
+                        </button>
+                      </div>
+                    )}
+
+                    {activeTab === 'transcript' && showReview && !isEditing && !isProcessing && (
+                      <ConfidenceReview
+                        transcription={transcription}
+                        threshold={confidenceThreshold}
+                        onThresholdChange={updateConfidenceThreshold}
+                        onEdit={history.apply}
+                        onPlayRange={playRange}
+                      />
+                    )}
+
+                    {activeTab === 'transcript' && showSpeakers && !isProcessing && (
+                      <SpeakerPanel transcription={transcription} onEdit={history.apply} />
+                    )}
+
+                    {activeTab === 'transcript' && isEditing && (
+                      <TranscriptEditor
+                        transcription={transcription}
+                        currentTime={currentTime}
+                        onEdit={history.apply}
+                        onSeek={handleWordClick}
+                      />
+                    )}
+
+                    {activeTab === 'transcript' && !isEditing && !!transcription.translation?.length && showBilingual && (
+                      <BilingualView
+                        transcription={transcription}
+                        currentTime={currentTime}
+                        speakerColors={speakerColors}
+                        searchHits={searchHits}
+                        activeHit={activeHit}
+                        onSeek={handleWordClick}
+                      />
+                    )}
+
+                    {activeTab === 'transcript' && !isEditing && !(transcription.translation?.length && showBilingual) && (
                       <div className="text-lg leading-loose font-sans text-[var(--foreground)]">
                         {transcription.chunks?.map((chunk, index) => {
                           const start = chunk.timestamp?.[0] ?? 0;
@@ -684,6 +1567,8 @@ export default function App() {
 
                           const isActive = currentTime >= start && currentTime <= end;
                           const isPast = currentTime > end;
+                          const hit = searchHits.get(index);
+                          const isCurrentHit = hit !== undefined && hit === activeHit;
 
                           // Show speaker label if it changed
                           const prevSpeaker = index > 0 ? transcription.chunks[index - 1].speaker : null;
@@ -692,26 +1577,35 @@ export default function App() {
                           return (
                             <React.Fragment key={index}>
                               {showSpeaker && (
-                                <div className="mt-6 mb-2 text-sm font-bold text-[var(--primary)] uppercase tracking-wider flex items-center gap-2">
-                                  <div className="w-2 h-2 rounded-full bg-[var(--primary)]"></div>
+                                <div className="mt-6 mb-2 text-sm font-bold uppercase tracking-wider flex items-center gap-2" style={{ color: speakerColors[speaker] }}>
+                                  <div className="w-2 h-2 rounded-full" style={{ backgroundColor: speakerColors[speaker] }}></div>
                                   {speaker}
                                 </div>
                               )}
                               <span
                                 onClick={() => handleWordClick(start)}
+                                data-search-active={isCurrentHit || undefined}
+                                data-word-index={index}
                                 className={`
                                   inline-block px-1.5 py-0.5 mx-0.5 rounded-md cursor-pointer transition-all duration-150
+                                  ${hit !== undefined && !isActive ? 'bg-amber-400/25' : ''}
+                                  ${isCurrentHit ? 'ring-2 ring-amber-400' : ''}
+                                  ${chunk.unaligned ? 'underline decoration-dashed decoration-amber-400 underline-offset-4' : ''}
                                   ${isActive ? 'bg-[var(--foreground)] text-[var(--background)] font-medium shadow-sm scale-105' : ''}
                                   ${isPast && !isActive ? 'text-[var(--foreground)]' : ''}
                                   ${!isPast && !isActive ? 'text-[var(--muted-foreground)] hover:text-[var(--foreground)]' : ''}
                                 `}
-                                title={`[${start.toFixed(2)}s - ${end.toFixed(2)}s]`}
+                                style={!isActive && hit === undefined ? { backgroundColor: confidenceTint(chunk.confidence) } : undefined}
+                                title={`[${start.toFixed(2)}s - ${end.toFixed(2)}s]${chunk.confidence !== undefined ? ` ${Math.round(chunk.confidence * 100)}% confidence` : ''}${chunk.unaligned ? ' Not heard in the recording, timing estimated' : ''}`}
                               >
                                 {wordText}
                               </span>
                             </React.Fragment>
                           );
                         })}
+                        {isProcessing && transcriptionProgress?.draft && (
+                          <span className="mx-0.5 px-1.5 italic text-[var(--muted-foreground)] opacity-60">{transcriptionProgress.draft}</span>
+                        )}
                       </div>
                     )}
 
@@ -725,23 +1619,38 @@ export default function App() {
                             const start = chunk.timestamp?.[0] ?? 0;
                             const end = chunk.timestamp?.[1] ?? start + 1;
                             const wordText = chunk.text ?? chunk.word ?? '';
+                            const speaker = chunk.speaker;
 
                             const isActive = currentTime >= start && currentTime <= end;
                             const isPast = currentTime > end;
+                            const hit = searchHits.get(index);
+                            const isCurrentHit = hit !== undefined && hit === activeHit;
+                            const prevSpeaker = index > 0 ? transcription.chunks[index - 1].speaker : null;
+                            const showSpeaker = speaker && speaker !== prevSpeaker;
 
                             return (
-                              <span
-                                key={index}
-                                onClick={() => handleWordClick(start)}
-                                className={`
-                                  inline-block mx-2 my-2 transition-all duration-300 cursor-pointer
-                                  ${isActive ? 'text-[var(--foreground)] scale-110 active-word drop-shadow-[0_0_15px_rgba(255,255,255,0.3)]' : ''}
-                                  ${isPast && !isActive ? 'text-[var(--muted-foreground)]' : ''}
-                                  ${!isPast && !isActive ? 'text-[var(--border)]' : ''}
-                                `}
-                              >
-                                {wordText}
-                              </span>
+                              <React.Fragment key={index}>
+                                {showSpeaker && (
+                                  <div className="text-sm font-bold uppercase tracking-wider pt-6" style={{ color: speakerColors[speaker] }}>
+                                    {speaker}
+                                  </div>
+                                )}
+                                <span
+                                  onClick={() => handleWordClick(start)}
+                                  data-search-active={isCurrentHit || undefined}
+                                  className={`
+                                    inline-block mx-2 my-2 px-1 rounded-lg transition-all duration-300 cursor-pointer
+                                    ${hit !== undefined ? 'bg-amber-400/20' : ''}
+                                    ${isCurrentHit ? 'ring-2 ring-amber-400' : ''}
+                                    ${isActive ? 'text-[var(--foreground)] scale-110 active-word drop-shadow-[0_0_15px_rgba(255,255,255,0.3)]' : ''}
+                                    ${isPast && !isActive ? 'text-[var(--muted-foreground)]' : ''}
+                                    ${!isPast && !isActive ? 'text-[var(--border)]' : ''}
+                                  `}
+                                  style={isActive && speaker ? { color: speakerColors[speaker] } : undefined}
+                                >
+                                  {wordText}
+                                </span>
+                              </React.Fragment>
                             );
                           })}
                         </div>
@@ -749,35 +1658,48 @@ export default function App() {
                     )}
 
                     {activeTab === 'json' && (
-                      <div className="relative">
-                        <div className="absolute top-4 right-4 flex gap-2">
-                          <button
-                            onClick={() => exportSubs('srt')}
-                            className="p-2 bg-[var(--secondary)] text-[var(--foreground)] rounded-lg hover:bg-[var(--border)] transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)]"
-                          >
-                            <Download size={16} /> SRT
-                          </button>
-                          <button
-                            onClick={() => exportSubs('vtt')}
-                            className="p-2 bg-[var(--secondary)] text-[var(--foreground)] rounded-lg hover:bg-[var(--border)] transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)]"
-                          >
-                            <Download size={16} /> VTT
-                          </button>
-                          <button
-                            onClick={() => {
-                              navigator.clipboard.writeText(JSON.stringify(transcription, null, 2));
-                              setCopied(true);
-                              setTimeout(() => setCopied(false), 2000);
-                            }}
-                            className="p-2 bg-[var(--secondary)] text-[var(--foreground)] rounded-lg hover:bg-[var(--border)] transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)]"
-                          >
-                            {copied ? <Check size={16} className="text-emerald-400" /> : <Copy size={16} />}
-                            {copied ? 'Copied!' : 'Copy JSON'}
-                          </button>
+                      <div>
+                        {showCueSettings && (
+                          <CueSettingsPanel options={cueOptions} onChange={updateCueOptions} cues={cues} hasTranslation={!!transcription.translation?.length} />
+                        )}
+                        <div className="relative">
+                          <div className="absolute top-4 right-4 flex gap-2">
+                            <button
+                              onClick={() => setShowCueSettings(!showCueSettings)}
+                              title="Subtitle cue settings"
+                              className={`p-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)] ${showCueSettings ? 'bg-[var(--foreground)] text-[var(--background)]' : 'bg-[var(--secondary)] text-[var(--foreground)] hover:bg-[var(--border)]'}`}
+                            >
+                              <Settings2 size={16} />
+                            </button>
+                            <button
+                              onClick={() => exportTranscript('srt')}
+                              className="p-2 bg-[var(--secondary)] text-[var(--foreground)] rounded-lg hover:bg-[var(--border)] transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)]"
+                            >
+                              <Download size={16} /> SRT
+                            </button>
+                            <button
+                              onClick={() => exportTranscript('vtt')}
+                              className="p-2 bg-[var(--secondary)] text-[var(--foreground)] rounded-lg hover:bg-[var(--border)] transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)]"
+                            >
+                              <Download size={16} /> VTT
+                            </button>
+                            <ExportMenu onExport={exportTranscript} />
+                            <button
+                              onClick={() => {
+                                navigator.clipboard.writeText(JSON.stringify(transcription, null, 2));
+                                setCopied(true);
+                                setTimeout(() => setCopied(false), 2000);
+                              }}
+                              className="p-2 bg-[var(--secondary)] text-[var(--foreground)] rounded-lg hover:bg-[var(--border)] transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)]"
+                            >
+                              {copied ? <Check size={16} className="text-emerald-400" /> : <Copy size={16} />}
+                              {copied ? 'Copied!' : 'Copy JSON'}
+                            </button>
+                          </div>
+                          <pre className="bg-[#09090b] text-[#d4d4d8] p-6 rounded-xl overflow-x-auto text-sm font-mono max-h-[500px] overflow-y-auto border border-[var(--border)] custom-scrollbar">
+                            <code>{JSON.stringify(transcription, null, 2)}</code>
+                          </pre>
                         </div>
-                        <pre className="bg-[#09090b] text-[#d4d4d8] p-6 rounded-xl overflow-x-auto text-sm font-mono max-h-[500px] overflow-y-auto border border-[var(--border)] custom-scrollbar">
-                          <code>{JSON.stringify(transcription, null, 2)}</code>
-                        </pre>
                       </div>
                     )}
                   </div>
@@ -795,6 +1717,81 @@ export default function App() {
         </div>
       </footer>
 
+      {/* Model Registry Modal */}
+      <AnimatePresence>
+        {showModels && (
+          <ModelRegistryPanel
+            registry={modelRegistry}
+            downloadedModels={downloadedModels}
+            prefetching={prefetching}
+            prefetchProgress={prefetching && progress?.status === 'progress' ? progress.progress : undefined}
+            canPrefetch={isOnline && !isProcessing && !isRecording && !batch.isRunning}
+            onPrefetch={prefetchModel}
+            onChange={updateModelRegistry}
+            onClose={() => setShowModels(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Model Cache Modal */}
+      <AnimatePresence>
+        {showModelCache && (
+          <ModelCachePanel
+            models={cachedModels}
+            onRefresh={refreshCachedModels}
+            onClose={() => setShowModelCache(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Keyboard Shortcuts Modal */}
+      <AnimatePresence>
+        {showShortcuts && (
+          <ShortcutsPanel shortcuts={shortcuts} onChange={updateShortcuts} onClose={() => setShowShortcuts(false)} />
+        )}
+      </AnimatePresence>
+
+      {/* Vocabulary & Glossary Modal */}
+      <AnimatePresence>
+        {showVocabulary && (
+          <VocabularyPanel
+            vocabulary={vocabulary}
+            onVocabularyChange={updateVocabulary}
+            rules={glossary}
+            onRulesChange={updateGlossary}
+            onApply={transcription && !isProcessing ? applyGlossaryToTranscript : undefined}
+            onClose={() => setShowVocabulary(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Clip Export Modal */}
+      <AnimatePresence>
+        {showClips && file && transcription && (
+          <ClipExportPanel
+            file={file}
+            transcription={transcription}
+            selection={clipSelection}
+            searchHits={search.hits}
+            duration={timelineDuration}
+            cueOptions={cueOptions}
+            onClose={() => setShowClips(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Project Library Modal */}
+      <AnimatePresence>
+        {showLibrary && (
+          <ProjectLibrary
+            currentProjectId={projectId}
+            onOpen={openProject}
+            onDeleted={(id) => { if (id === projectIdRef.current) selectProject(null); }}
+            onClose={() => setShowLibrary(false)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Info Modal */}
       <AnimatePresence>
         {showInfo && (
@@ -837,12 +1834,25 @@ export default function App() {
 
                 <h4 className="font-semibold text-[var(--foreground)] mt-4 mb-2">New Features</h4>
                 <ul className="list-disc pl-5 space-y-1">
-                  <li><strong>Model Selection:</strong> Choose between Tiny, Base, and Small models for better accuracy.</li>
+                  <li><strong>Model Selection:</strong> Choose from Tiny up to Large v3 Turbo, add any Whisper ONNX export from Hugging Face or a local folder, and set encoder/decoder precision (fp32, fp16, q8, q4) to trade size for accuracy.</li>
+                  <li><strong>Confidence Review:</strong> Words the model was unsure about are shaded red. Open Review to step through every word below a threshold, hear it in context, and accept or correct it.</li>
+                  <li><strong>Vocabulary & Glossary:</strong> Give each project a list of names and terms to prompt Whisper with, and keep glossary rules (plain or regex, case-preserving) that fix recurring mistakes after every run.</li>
+                  <li><strong>Script Alignment:</strong> Paste or load the exact script before starting and the transcript keeps its wording, timed word by word against the audio. Words that cannot be found are underlined and get estimated timings.</li>
+                  <li><strong>Timeline:</strong> Open the waveform timeline from the player to see every word in its speaker's lane. Ctrl+wheel zooms; drag a word's edges to fix its timing (undo works as usual).</li>
+                  <li><strong>Playback:</strong> Slow down without the chipmunk effect, rewind a couple of seconds on resume, loop a word, sentence or selection, and jump between segments and speaker turns, all from the keyboard (Alt+K plays; rebind under the keyboard icon).</li>
+                  <li><strong>Clips:</strong> Select words in the transcript and press Clips to download them as a WAV with matching SRT/VTT, or batch-export every speaker turn or search hit.</li>
+                  <li><strong>Search:</strong> Press Ctrl+F to search the transcript (match case, whole word or regex), then Enter / Shift+Enter to jump between matches.</li>
+                  <li><strong>Model Cache:</strong> Review downloaded models with their file sizes and last use, and delete the ones you no longer need to free space.</li>
+                  <li><strong>Offline Use:</strong> Install the app from your browser and download models from the model manager; once cached, transcription works without a network connection.</li>
                   <li><strong>WebGPU:</strong> Experimental support for hardware acceleration in supported browsers.</li>
-                  <li><strong>Video Support:</strong> Upload MP4/WebM videos directly.</li>
-                  <li><strong>Live Record:</strong> Transcribe directly from your microphone.</li>
-                  <li><strong>Export:</strong> Download subtitles in SRT or VTT formats from the JSON tab.</li>
-                  <li><strong>Diarization:</strong> Heuristic speaker detection based on pauses.</li>
+                  <li><strong>Video Support:</strong> Upload MP4/WebM videos directly and preview them with live, styleable captions and a karaoke word highlight that follow your edits.</li>
+                  <li><strong>Languages:</strong> All 99 Whisper languages, or auto-detect with the detected language and its confidence saved in the JSON output.</li>
+                  <li><strong>Translation:</strong> Translate any language to English, or run both passes for a side-by-side bilingual transcript and dual-line subtitles.</li>
+                  <li><strong>Silence Skipping:</strong> A voice activity detection pre-pass sends only speech to Whisper, saving compute and avoiding hallucinated filler.</li>
+                  <li><strong>Live Record:</strong> Transcribe your microphone as you speak; tentative text firms up as more context arrives.</li>
+                  <li><strong>Export:</strong> Download SRT, VTT, TXT, Markdown, CSV/TSV, ASS karaoke or Audacity labels from the JSON tab.</li>
+                  <li><strong>Diarization:</strong> Voice embeddings (WavLM) are clustered in the worker to find any number of speakers, with a pause-based fallback.</li>
+                  <li><strong>Speakers:</strong> Rename, recolour and merge speakers, or shift+click a word range in edit mode to reassign it.</li>
                 </ul>
 
 
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Play, Square, ArrowUp, ArrowDown, X, RotateCcw, FolderOpen, Archive, Loader2, Check, AlertTriangle, Clock } from 'lucide-react';
+import type { BatchItem, BatchStatus, useBatchQueue } from '../hooks/useBatchQueue';
+import { listExporters, runExporter } from '../lib/exporters';
+import type { CueOptions } from '../lib/subtitles';
+import { createZip } from '../lib/zip';
+import { downloadFile } from '../lib/download';
+
+interface BatchQueuePanelProps {
+  batch: ReturnType<typeof useBatchQueue>;
+  cueOptions: CueOptions;
+  disabled: boolean;
+  onOpen: (item: BatchItem) => void;
+}
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  queued: 'Queued',
+  decoding: 'Decoding',
+  transcribing: 'Transcribing',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+function StatusIcon({ status }: { status: BatchStatus }) {
+  if (status === 'done') return <Check size={14} className="text-emerald-400" />;
+  if (status === 'failed') return <AlertTriangle size={14} className="text-red-400" />;
+  if (status === 'queued') return <Clock size={14} className="text-[var(--muted-foreground)]" />;
+  return <Loader2 size={14} className="animate-spin text-[var(--foreground)]" />;
+}
+
+export default function BatchQueuePanel({ batch, cueOptions, disabled, onOpen }: BatchQueuePanelProps) {
+  const [format, setFormat] = useState('srt');
+  const done = batch.items.filter(item => item.status === 'done' && item.transcription);
+  const hasQueued = batch.items.some(item => item.status === 'queued');
+
+  const exportAll = () => {
+    const used = new Map<string, number>();
+    const entries = done.map(item => {
+      // Keep file names unique inside the archive
+      const base = item.file.name.replace(/\.[^.]+$/, '');
+      const count = used.get(base) ?? 0;
+      used.set(base, count + 1);
+      const { content, filename } = runExporter(format, item.transcription!, { cueOptions }, count ? `${base} (${count})` : base);
+      return { name: filename, data: content };
+    });
+    downloadFile(createZip(entries), `transcripts-${format}.zip`, 'application/zip');
+  };
+
+  const iconButton = 'p-1.5 text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--secondary)] rounded-md transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div className="mt-8 border border-[var(--border)] rounded-[var(--radius)] overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-5 py-4 bg-[var(--background)]/50 border-b border-[var(--border)]">
+        <div>
+          <h3 className="font-medium text-[var(--foreground)]">Batch Queue</h3>
+          <p className="text-xs text-[var(--muted-foreground)]">{done.length} of {batch.items.length} done</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {batch.isRunning ? (
+            <button onClick={batch.stop} className="px-3 py-2 bg-red-950/30 text-red-400 border border-red-900/50 rounded-lg text-sm font-medium hover:bg-red-900/50 transition-colors flex items-center gap-2">
+              <Square size={14} /> Stop
+            </button>
+          ) : (
+            <button
+              onClick={batch.start}
+              disabled={disabled || !hasQueued}
+              className="px-3 py-2 bg-[var(--foreground)] text-[var(--background)] rounded-lg text-sm font-medium hover:opacity-90 transition-opacity flex items-center gap-2 disabled:opacity-40"
+            >
+              <Play size={14} /> Start Queue
+            </button>
+          )}
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value)}
+            className="bg-[var(--secondary)] border border-[var(--border)] rounded-lg px-2 py-2 text-sm text-[var(--foreground)] outline-none"
+          >
+            {listExporters().map(exporter => (
+              <option key={exporter.id} value={exporter.id} className="bg-[var(--card)]">{exporter.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={exportAll}
+            disabled={done.length === 0}
+            className="px-3 py-2 bg-[var(--secondary)] text-[var(--foreground)] border border-[var(--border)] rounded-lg text-sm font-medium hover:bg-[var(--border)] transition-colors flex items-center gap-2 disabled:opacity-40"
+          >
+            <Archive size={14} /> ZIP
+          </button>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-[var(--border)] max-h-[360px] overflow-y-auto custom-scrollbar">
+        {batch.items.map((item, index) => {
+          const active = item.status === 'decoding' || item.status === 'transcribing';
+          return (
+            <li key={item.id} className="px-5 py-3 flex items-center gap-3">
+              <StatusIcon status={item.status} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-[var(--foreground)] truncate">{item.file.name}</p>
+                <p className={`text-xs ${item.status === 'failed' ? 'text-red-400' : 'text-[var(--muted-foreground)]'} truncate`}>
+                  {item.status === 'failed' && item.error ? item.error : STATUS_LABELS[item.status]}
+                  {item.status === 'transcribing' && item.total > 0 && ` · ${Math.round((item.processed / item.total) * 100)}%`}
+                </p>
+                {item.warning && item.status !== 'failed' && (
+                  <p className="text-xs text-amber-400 truncate" title={item.warning}>{item.warning}</p>
+                )}
+                {item.status === 'transcribing' && (
+                  <div className="h-1 bg-[var(--secondary)] rounded-full overflow-hidden mt-1.5">
+                    <div className="h-full bg-[var(--foreground)] transition-all duration-300" style={{ width: `${item.total > 0 ? (item.processed / item.total) * 100 : 0}%` }} />
+                  </div>
+                )}
+              </div>
+              <button onClick={() => batch.moveItem(item.id, -1)} disabled={index === 0} title="Move up" className={iconButton}>
+                <ArrowUp size={14} />
+              </button>
+              <button onClick={() => batch.moveItem(item.id, 1)} disabled={index === batch.items.length - 1} title="Move down" className={iconButton}>
+                <ArrowDown size={14} />
+              </button>
+              {item.status === 'failed' && (
+                <button onClick={() => batch.retryItem(item.id)} title="Retry" className={iconButton}>
+                  <RotateCcw size={14} />
+                </button>
+              )}
+              {item.status === 'done' && (
+                <button onClick={() => onOpen(item)} title="Open transcript" className={iconButton}>
+                  <FolderOpen size={14} />
+                </button>
+              )}
+              <button onClick={() => batch.removeItem(item.id)} disabled={active} title="Remove" className={iconButton}>
+                <X size={14} />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {done.length > 0 && (
+        <div className="px-5 py-2 text-right border-t border-[var(--border)]">
+          <button onClick={batch.clearFinished} className="text-xs text-[var(--muted-foreground)] hover:text-[var(--foreground)] transition-colors">
+            Clear finished
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import React, { useMemo } from 'react';
+import type { TranscriptionOutput } from '../types';
+import { wordText, wordStart, wordEnd } from '../lib/transcript';
+import { alignTranslation } from '../lib/translation';
+
+interface BilingualViewProps {
+  transcription: TranscriptionOutput;
+  currentTime: number;
+  speakerColors: Record<string, string>;
+  // Word index -> search hit index, and the hit currently stepped to
+  searchHits: Map<number, number>;
+  activeHit: number;
+  onSeek: (start: number) => void;
+}
+
+// Original words and their English translation side by side, one row per translated sentence
+export default function BilingualView({ transcription, currentTime, speakerColors, searchHits, activeHit, onSeek }: BilingualViewProps) {
+  const rows = useMemo(() => alignTranslation(transcription), [transcription]);
+
+  return (
+    <div className="divide-y divide-[var(--border)]">
+      <div className="grid grid-cols-2 gap-6 pb-3 text-xs font-medium text-[var(--muted-foreground)] uppercase tracking-wider">
+        <span>Original</span>
+        <span>English</span>
+      </div>
+      {rows.map((row, r) => {
+        const words = transcription.chunks.slice(row.firstWord, row.lastWord);
+        const isActive = currentTime >= row.start && currentTime < row.end;
+        const speaker = words[0]?.speaker;
+        const prevSpeaker = row.firstWord > 0 ? transcription.chunks[row.firstWord - 1].speaker : null;
+
+        return (
+          <div key={r} className={`grid grid-cols-2 gap-6 py-3 transition-colors ${isActive ? 'bg-[var(--secondary)]/50' : ''}`}>
+            <div className="leading-relaxed">
+              {speaker && speaker !== prevSpeaker && (
+                <div className="text-xs font-bold uppercase tracking-wider mb-1" style={{ color: speakerColors[speaker] }}>{speaker}</div>
+              )}
+              {words.map((chunk, i) => {
+                const start = wordStart(chunk);
+                const active = currentTime >= start && currentTime <= wordEnd(chunk);
+                const hit = searchHits.get(row.firstWord + i);
+                return (
+                  <span
+                    key={i}
+                    onClick={() => onSeek(start)}
+                    data-search-active={(hit !== undefined && hit === activeHit) || undefined}
+                    className={`cursor-pointer rounded px-0.5 ${active ? 'bg-[var(--foreground)] text-[var(--background)]' : `text-[var(--foreground)] hover:bg-[var(--secondary)] ${hit !== undefined ? 'bg-amber-400/25' : ''}`} ${hit !== undefined && hit === activeHit ? 'ring-2 ring-amber-400' : ''}`}
+                  >
+                    {wordText(chunk)}
+                  </span>
+                );
+              })}
+            </div>
+            <p
+              onClick={() => onSeek(row.start)}
+              className={`leading-relaxed cursor-pointer ${isActive ? 'text-[var(--foreground)]' : 'text-[var(--muted-foreground)]'}`}
+            >
+              {row.translation}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
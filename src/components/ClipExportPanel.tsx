@@ -0,0 +1,160 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'motion/react';
+import { X, Scissors, Loader2, TextSelect, Users, Search, Download } from 'lucide-react';
+import type { TranscriptionOutput } from '../types';
+import type { SearchHit } from '../lib/search';
+import { CueOptions } from '../lib/subtitles';
+import { ClipRange, DEFAULT_CLIP_PADDING_S, clipRange, turnRanges, hitRanges, buildClipZip } from '../lib/clips';
+import { downloadFile } from '../lib/download';
+
+interface ClipExportPanelProps {
+  file: File;
+  transcription: TranscriptionOutput;
+  // Word index range [first, last] selected in the transcript when the panel opened
+  selection: [number, number] | null;
+  searchHits: SearchHit[];
+  duration: number;
+  cueOptions: CueOptions;
+  onClose: () => void;
+}
+
+type ClipScope = 'selection' | 'turns' | 'hits';
+
+function formatTime(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1);
+  return `${m}:${s.padStart(4, '0')}`;
+}
+
+export default function ClipExportPanel({ file, transcription, selection, searchHits, duration, cueOptions, onClose }: ClipExportPanelProps) {
+  const [padding, setPadding] = useState(DEFAULT_CLIP_PADDING_S);
+  const [busy, setBusy] = useState<ClipScope | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the panel abandons an export still decoding
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const chunks = transcription.chunks;
+  const selected = selection && chunks[selection[1]] ? clipRange(chunks, selection[0], selection[1], padding, duration) : null;
+  const turns = turnRanges(chunks, padding, duration);
+  const hits = hitRanges(chunks, searchHits, padding, duration);
+
+  const exportClips = async (scope: ClipScope, ranges: ClipRange[], filename: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setBusy(scope);
+    setError(null);
+    try {
+      const zip = await buildClipZip(file, transcription, ranges, cueOptions, controller.signal);
+      downloadFile(zip, filename, 'application/zip');
+    } catch (err: any) {
+      if (err?.name !== 'AbortError') setError(err?.message ?? 'Could not cut the clips.');
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setBusy(null);
+    }
+  };
+
+  const row = (scope: ClipScope, icon: React.ReactNode, title: string, detail: string, ranges: ClipRange[], filename: string) => (
+    <div className="flex items-center justify-between gap-4 py-3">
+      <div className="flex items-start gap-3 min-w-0">
+        <span className="mt-0.5 text-[var(--muted-foreground)]">{icon}</span>
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-[var(--foreground)]">{title}</div>
+          <div className="text-xs text-[var(--muted-foreground)] truncate">{detail}</div>
+        </div>
+      </div>
+      <button
+        onClick={() => exportClips(scope, ranges, filename)}
+        disabled={ranges.length === 0 || busy !== null}
+        className="shrink-0 px-3 py-1.5 bg-[var(--secondary)] text-[var(--foreground)] rounded-lg hover:bg-[var(--border)] transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)] disabled:opacity-40"
+      >
+        {busy === scope ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+        {ranges.length > 1 ? `${ranges.length} clips` : 'Clip'}
+      </button>
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.95, opacity: 0, y: 20 }}
+        transition={{ duration: 0.3, ease: "easeOut" }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-[var(--card)] border border-[var(--border)] rounded-[var(--radius)] p-8 max-w-lg w-full max-h-[90vh] overflow-y-auto shadow-2xl relative"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 text-[var(--muted-foreground)] hover:text-[var(--foreground)] bg-[var(--secondary)] rounded-full transition-colors"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="w-12 h-12 bg-[var(--secondary)] text-[var(--foreground)] rounded-xl flex items-center justify-center mb-6 border border-[var(--border)]">
+          <Scissors size={24} />
+        </div>
+        <h3 className="text-xl font-semibold tracking-tight text-[var(--foreground)] mb-2">Export Clips</h3>
+        <p className="text-sm text-[var(--muted-foreground)] mb-6">
+          Cut WAV clips out of the recording, each with SRT and WebVTT subtitles that start at 0:00. Everything is decoded and cut in your browser.
+        </p>
+
+        <label className="flex items-center justify-between gap-4 mb-4 text-sm text-[var(--foreground)]">
+          Padding before and after each clip
+          <span className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              max={10}
+              step={0.05}
+              value={padding}
+              onChange={(e) => setPadding(Math.max(0, Number(e.target.value) || 0))}
+              className="w-20 bg-[var(--secondary)] border border-[var(--border)] rounded-md px-2 py-1 text-sm font-mono text-[var(--foreground)] outline-none"
+            />
+            <span className="text-[var(--muted-foreground)]">s</span>
+          </span>
+        </label>
+
+        <div className="divide-y divide-[var(--border)] border-y border-[var(--border)]">
+          {row(
+            'selection',
+            <TextSelect size={16} />,
+            'Selected words',
+            selected
+              ? `${selected.last - selected.first + 1} words, ${formatTime(selected.start)} – ${formatTime(selected.end)}`
+              : 'Select words in the transcript before opening this dialog',
+            selected ? [selected] : [],
+            `${selected?.name ?? 'clip'}.zip`,
+          )}
+          {row(
+            'turns',
+            <Users size={16} />,
+            'Every speaker turn',
+            `${turns.length} ${turns.length === 1 ? 'turn' : 'turns'}`,
+            turns,
+            'clips-speaker-turns.zip',
+          )}
+          {row(
+            'hits',
+            <Search size={16} />,
+            'Every search hit',
+            hits.length ? `${hits.length} ${hits.length === 1 ? 'match' : 'matches'} for the current search` : 'Search the transcript first',
+            hits,
+            'clips-search-hits.zip',
+          )}
+        </div>
+
+        {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
+      </motion.div>
+    </motion.div>
+  );
+}
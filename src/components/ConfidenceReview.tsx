@@ -0,0 +1,129 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ChevronLeft, ChevronRight, Check, Play, ShieldAlert } from 'lucide-react';
+import type { TranscriptionOutput } from '../types';
+import { wordText, wordStart, wordEnd } from '../lib/transcript';
+import { replaceWord } from '../lib/transcriptEditor';
+import { lowConfidenceWords, acceptWord } from '../lib/confidence';
+
+interface ConfidenceReviewProps {
+  transcription: TranscriptionOutput;
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  onEdit: (next: TranscriptionOutput) => void;
+  // Play [start, end] and stop
+  onPlayRange: (start: number, end: number) => void;
+}
+
+// Seconds of audio played on each side of the word under review
+const CONTEXT_S = 1.5;
+// Words shown on each side of it
+const CONTEXT_WORDS = 6;
+
+// Steps through words scored below the threshold; accepted or corrected words drop out of the list
+export default function ConfidenceReview({ transcription, threshold, onThresholdChange, onEdit, onPlayRange }: ConfidenceReviewProps) {
+  const chunks = transcription.chunks;
+  const low = useMemo(() => lowConfidenceWords(chunks, threshold), [chunks, threshold]);
+  // Chunk index the review has reached; the word under review is the first low word at or after it
+  const [cursor, setCursor] = useState(0);
+  const position = low.findIndex((i: number) => i >= cursor);
+  const index: number | undefined = position >= 0 ? low[position] : low[low.length - 1];
+  const current = index !== undefined ? chunks[index] : undefined;
+  const [correction, setCorrection] = useState('');
+
+  useEffect(() => {
+    setCorrection(current ? wordText(current).trim() : '');
+  }, [current]);
+
+  const play = (i: number, words = chunks) => {
+    const chunk = words[i];
+    onPlayRange(Math.max(0, wordStart(chunk) - CONTEXT_S), wordEnd(chunk) + CONTEXT_S);
+  };
+
+  const goTo = (i: number | undefined) => {
+    if (i === undefined) return;
+    setCursor(i);
+    play(i);
+  };
+
+  // Moves on to the next low word and plays it, as Prev/Next do. A correction may have split the
+  // word in two, so the cursor skips however many words replaced it.
+  const resolve = (next: TranscriptionOutput) => {
+    if (index === undefined) return;
+    onEdit(next);
+    const after = index + 1 + next.chunks.length - chunks.length;
+    setCursor(after);
+    const following = lowConfidenceWords(next.chunks, threshold).find((i: number) => i >= after);
+    if (following !== undefined) play(following, next.chunks);
+  };
+
+  const submit = () => {
+    if (index === undefined || !current) return;
+    const text = correction.trim();
+    resolve(text && text !== wordText(current).trim() ? replaceWord(transcription, index, text) : acceptWord(transcription, index));
+  };
+
+  const reviewPosition = low.indexOf(index as number);
+
+  return (
+    <div className="mb-6 p-4 rounded-xl border border-[var(--border)] bg-[var(--background)]/50">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <span className="flex items-center gap-2 text-xs font-medium text-[var(--muted-foreground)] uppercase tracking-wider">
+          <ShieldAlert size={14} /> Low-confidence review
+        </span>
+        <label className="flex items-center gap-3 text-xs text-[var(--muted-foreground)]">
+          Below
+          <input
+            type="range"
+            min={0.1}
+            max={0.95}
+            step={0.05}
+            value={threshold}
+            onChange={(e) => onThresholdChange(Number(e.target.value))}
+            className="w-28 accent-[var(--foreground)]"
+          />
+          <span className="font-mono w-8">{Math.round(threshold * 100)}%</span>
+        </label>
+      </div>
+
+      {!current ? (
+        <p className="text-sm text-[var(--muted-foreground)] text-center py-4">
+          {chunks.some(c => c.confidence !== undefined) ? 'No words below the threshold. All reviewed!' : 'This transcript has no confidence scores.'}
+        </p>
+      ) : (
+        <>
+          <p className="text-lg leading-relaxed mb-4">
+            {chunks.slice(Math.max(0, index! - CONTEXT_WORDS), index).map(wordText).join('')}
+            <span className="mx-1 px-1.5 py-0.5 rounded-md bg-red-500/25 ring-2 ring-red-400 font-medium text-[var(--foreground)]">
+              {wordText(current).trim()}
+            </span>
+            <span className="text-[var(--muted-foreground)]">{chunks.slice(index! + 1, index! + 1 + CONTEXT_WORDS).map(wordText).join('')}</span>
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs font-mono text-[var(--muted-foreground)] mr-2">
+              {reviewPosition + 1} / {low.length} · {Math.round((current.confidence ?? 0) * 100)}%
+            </span>
+            <button onClick={() => goTo(low[reviewPosition - 1])} disabled={reviewPosition <= 0} title="Previous" className="p-2 bg-[var(--secondary)] rounded-lg border border-[var(--border)] disabled:opacity-40">
+              <ChevronLeft size={16} />
+            </button>
+            <button onClick={() => play(index!)} title="Play in context" className="p-2 bg-[var(--secondary)] rounded-lg border border-[var(--border)]">
+              <Play size={16} />
+            </button>
+            <input
+              value={correction}
+              onChange={(e) => setCorrection(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+              className="flex-1 min-w-[120px] bg-[var(--secondary)] border border-[var(--border)] rounded-lg px-3 py-1.5 text-sm text-[var(--foreground)] outline-none"
+              title="Type a correction and press Enter; Enter on the unchanged word accepts it"
+            />
+            <button onClick={submit} className="flex items-center gap-1.5 px-3 py-2 bg-[var(--foreground)] text-[var(--background)] rounded-lg text-sm font-medium">
+              <Check size={16} /> {correction.trim() && correction.trim() !== wordText(current).trim() ? 'Correct' : 'Accept'}
+            </button>
+            <button onClick={() => goTo(low[reviewPosition + 1])} disabled={reviewPosition >= low.length - 1} title="Next" className="p-2 bg-[var(--secondary)] rounded-lg border border-[var(--border)] disabled:opacity-40">
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
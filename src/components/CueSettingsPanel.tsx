@@ -0,0 +1,118 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { CueOptions, SubtitleCue, SubtitleTrack, DEFAULT_CUE_OPTIONS, formatTimestamp } from '../lib/subtitles';
+
+interface CueSettingsPanelProps {
+  options: CueOptions;
+  onChange: (options: CueOptions) => void;
+  cues: SubtitleCue[];
+  hasTranslation: boolean;
+}
+
+type NumberField = { [K in keyof CueOptions]: CueOptions[K] extends number ? K : never }[keyof CueOptions];
+
+const NUMBER_FIELDS: { key: NumberField; label: string; min: number; max: number; step: number }[] = [
+  { key: 'maxCharsPerLine', label: 'Max chars / line', min: 10, max: 80, step: 1 },
+  { key: 'maxLines', label: 'Max lines / cue', min: 1, max: 4, step: 1 },
+  { key: 'minDuration', label: 'Min duration (s)', min: 0.2, max: 5, step: 0.1 },
+  { key: 'maxDuration', label: 'Max duration (s)', min: 1, max: 15, step: 0.5 },
+  { key: 'maxCharsPerSecond', label: 'Reading speed (CPS)', min: 5, max: 40, step: 1 },
+];
+
+export default function CueSettingsPanel({ options, onChange, cues, hasTranslation }: CueSettingsPanelProps) {
+  const update = <K extends keyof CueOptions>(key: K, value: CueOptions[K]) => {
+    onChange({ ...options, [key]: value });
+  };
+
+  return (
+    <div className="bg-[var(--secondary)]/40 border border-[var(--border)] rounded-xl p-5 mb-4 space-y-5">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-medium text-[var(--muted-foreground)] uppercase tracking-wider">Subtitle Cue Settings</h4>
+        <button
+          onClick={() => onChange(DEFAULT_CUE_OPTIONS)}
+          className="text-xs text-[var(--muted-foreground)] hover:text-[var(--foreground)] flex items-center gap-1 transition-colors"
+        >
+          <RotateCcw size={12} /> Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {NUMBER_FIELDS.map(field => (
+          <label key={field.key} className="flex flex-col gap-1.5">
+            <span className="text-xs text-[var(--muted-foreground)]">{field.label}</span>
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={options[field.key]}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (!isNaN(value)) update(field.key, Math.min(field.max, Math.max(field.min, value)));
+              }}
+              className="bg-[var(--card)] border border-[var(--border)] rounded-lg px-3 py-2 text-sm font-mono text-[var(--foreground)] outline-none focus:border-[var(--foreground)]"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-5 text-sm">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={options.breakOnPunctuation}
+            onChange={(e) => update('breakOnPunctuation', e.target.checked)}
+          />
+          Break at sentence punctuation
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={options.breakOnSpeakerChange}
+            onChange={(e) => update('breakOnSpeakerChange', e.target.checked)}
+          />
+          Break at speaker changes
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={options.speakerLabels}
+            onChange={(e) => update('speakerLabels', e.target.checked)}
+          />
+          Label speakers
+        </label>
+        {hasTranslation && (
+          <label className="flex items-center gap-2">
+            Subtitle language
+            <select
+              value={options.subtitleTrack}
+              onChange={(e) => update('subtitleTrack', e.target.value as SubtitleTrack)}
+              className="bg-[var(--card)] border border-[var(--border)] rounded-lg px-2 py-1 text-sm text-[var(--foreground)] outline-none"
+            >
+              <option value="original" className="bg-[var(--card)]">Original</option>
+              <option value="translation" className="bg-[var(--card)]">English</option>
+              <option value="dual" className="bg-[var(--card)]">Dual-line</option>
+            </select>
+          </label>
+        )}
+      </div>
+
+      <div>
+        <div className="text-xs text-[var(--muted-foreground)] mb-2">Preview ({cues.length} cues)</div>
+        <div className="max-h-[240px] overflow-y-auto custom-scrollbar space-y-2 pr-1">
+          {cues.map((cue, i) => (
+            <div key={i} className="bg-[var(--card)] border border-[var(--border)] rounded-lg px-3 py-2 flex gap-4">
+              <div className="text-xs font-mono text-[var(--muted-foreground)] whitespace-nowrap pt-0.5">
+                <div>{formatTimestamp(cue.start, false)}</div>
+                <div>{formatTimestamp(cue.end, false)}</div>
+              </div>
+              <div className="text-sm text-[var(--foreground)] text-center flex-1">
+                {cue.lines.map((line, j) => <div key={j}>{line}</div>)}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
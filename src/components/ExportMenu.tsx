@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { Download, ChevronDown } from 'lucide-react';
+import { listExporters } from '../lib/exporters';
+
+interface ExportMenuProps {
+  onExport: (exporterId: string) => void;
+}
+
+export default function ExportMenu({ onExport }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="p-2 bg-[var(--secondary)] text-[var(--foreground)] rounded-lg hover:bg-[var(--border)] transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)]"
+      >
+        <Download size={16} /> More <ChevronDown size={14} />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-48 bg-[var(--card)] border border-[var(--border)] rounded-lg shadow-xl z-20 py-1">
+          {listExporters().map(exporter => (
+            <button
+              key={exporter.id}
+              onClick={() => {
+                onExport(exporter.id);
+                setOpen(false);
+              }}
+              className="w-full text-left px-3 py-2 text-sm text-[var(--foreground)] hover:bg-[var(--secondary)] transition-colors flex items-center justify-between"
+            >
+              {exporter.label}
+              <span className="text-xs font-mono text-[var(--muted-foreground)]">.{exporter.extension}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
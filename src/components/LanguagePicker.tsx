@@ -0,0 +1,89 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Globe, ChevronDown, Search } from 'lucide-react';
+import { WHISPER_LANGUAGES, AUTO_DETECT, findLanguage } from '../lib/languages';
+
+interface LanguagePickerProps {
+  value: string;
+  onChange: (language: string) => void;
+}
+
+const AUTO_OPTION = { code: AUTO_DETECT, name: AUTO_DETECT, label: 'Auto-detect' };
+
+export default function LanguagePicker({ value, onChange }: LanguagePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [open]);
+
+  const needle = query.trim().toLowerCase();
+  const options = [AUTO_OPTION, ...WHISPER_LANGUAGES].filter(language =>
+    !needle || language.label.toLowerCase().includes(needle) || language.code === needle
+  );
+
+  const select = (name: string) => {
+    onChange(name);
+    setOpen(false);
+    setQuery('');
+  };
+
+  const current = value === AUTO_DETECT ? AUTO_OPTION : findLanguage(value);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 bg-[var(--secondary)] px-3 py-2.5 rounded-lg border border-[var(--border)] text-sm font-medium text-[var(--foreground)]"
+      >
+        <Globe className="w-4 h-4 text-[var(--muted-foreground)]" />
+        <span className="flex-1 text-left truncate">{current?.label ?? value}</span>
+        <ChevronDown className="w-4 h-4 text-[var(--muted-foreground)]" />
+      </button>
+
+      {open && (
+        <div className="absolute z-30 mt-1 w-full min-w-[220px] bg-[var(--card)] border border-[var(--border)] rounded-lg shadow-xl overflow-hidden">
+          <div className="flex items-center gap-2 px-3 py-2 border-b border-[var(--border)]">
+            <Search className="w-4 h-4 text-[var(--muted-foreground)]" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && options[0]) select(options[0].name);
+                if (e.key === 'Escape') setOpen(false);
+              }}
+              placeholder="Search 99 languages..."
+              className="flex-1 bg-transparent text-sm text-[var(--foreground)] outline-none"
+            />
+          </div>
+          <ul className="max-h-[260px] overflow-y-auto custom-scrollbar py-1">
+            {options.map(language => (
+              <li key={language.code}>
+                <button
+                  type="button"
+                  onClick={() => select(language.name)}
+                  className={`w-full flex items-center justify-between px-3 py-1.5 text-sm text-left hover:bg-[var(--secondary)] ${language.name === value ? 'text-[var(--foreground)] font-medium' : 'text-[var(--muted-foreground)]'}`}
+                >
+                  {language.label}
+                  {language.code !== AUTO_DETECT && <span className="text-xs font-mono opacity-60">{language.code}</span>}
+                </button>
+              </li>
+            ))}
+            {options.length === 0 && (
+              <li className="px-3 py-2 text-sm text-[var(--muted-foreground)]">No matching language</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
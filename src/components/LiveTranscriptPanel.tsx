@@ -0,0 +1,62 @@
+import React, { useEffect, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+import type { LiveTranscript, ProgressMessage } from '../types';
+import { wordText, wordStart, wordEnd } from '../lib/transcript';
+
+interface LiveTranscriptPanelProps {
+  live: LiveTranscript;
+  progress: ProgressMessage | null;
+}
+
+function formatElapsed(seconds: number): string {
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+export default function LiveTranscriptPanel({ live, progress }: LiveTranscriptPanelProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const isLoading = live.elapsed === 0 && live.committed.length === 0;
+
+  // Keep the newest words in view
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [live]);
+
+  return (
+    <div className="mt-8 border border-red-500/30 rounded-[var(--radius)] overflow-hidden">
+      <div className="flex items-center justify-between px-5 py-3 bg-red-500/10 border-b border-red-500/30">
+        <div className="flex items-center gap-2 text-sm font-medium text-[var(--foreground)]">
+          <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
+          Live Transcription
+        </div>
+        <span className="text-xs font-mono text-[var(--muted-foreground)]">{formatElapsed(live.elapsed)}</span>
+      </div>
+
+      <div ref={scrollRef} className="h-[240px] overflow-y-auto custom-scrollbar p-5 text-lg leading-loose">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-[var(--muted-foreground)]">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            {progress?.status === 'progress' && progress.progress !== undefined
+              ? `Downloading model... ${Math.round(progress.progress)}%`
+              : 'Loading model... keep talking, audio is being captured.'}
+          </div>
+        ) : (
+          <>
+            {live.committed.map((chunk, index) => (
+              <span
+                key={index}
+                className="text-[var(--foreground)]"
+                title={`[${wordStart(chunk).toFixed(2)}s - ${wordEnd(chunk).toFixed(2)}s]`}
+              >
+                {wordText(chunk)}
+              </span>
+            ))}
+            {live.tentative && (
+              <span className="italic text-[var(--muted-foreground)] opacity-70"> {live.tentative}</span>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { X, HardDrive, Trash2, ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import { CachedModel, deleteCachedModel, clearModelCache, isCacheAvailable } from '../lib/modelCache';
+import { formatBytes } from '../lib/format';
+
+interface ModelCachePanelProps {
+  models: CachedModel[];
+  onRefresh: () => Promise<void>;
+  onClose: () => void;
+}
+
+export default function ModelCachePanel({ models, onRefresh, onClose }: ModelCachePanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const total = models.reduce((sum, m) => sum + m.size, 0);
+
+  useEffect(() => {
+    onRefresh();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setError(null);
+      await action();
+    } catch (err: any) {
+      setError(err.message);
+    }
+    await onRefresh();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.95, opacity: 0, y: 20 }}
+        transition={{ duration: 0.3, ease: "easeOut" }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-[var(--card)] border border-[var(--border)] rounded-[var(--radius)] p-8 max-w-2xl w-full shadow-2xl relative"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 text-[var(--muted-foreground)] hover:text-[var(--foreground)] bg-[var(--secondary)] rounded-full transition-colors"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="w-12 h-12 bg-[var(--secondary)] text-[var(--foreground)] rounded-xl flex items-center justify-center mb-6 border border-[var(--border)]">
+          <HardDrive size={24} />
+        </div>
+        <h3 className="text-xl font-semibold tracking-tight text-[var(--foreground)] mb-2">Downloaded Models</h3>
+        <p className="text-sm text-[var(--muted-foreground)] mb-6">
+          Model files kept in this browser's cache. Deleted models are downloaded again the next time they are used.
+        </p>
+
+        <div className="flex items-center justify-between text-xs text-[var(--muted-foreground)] mb-4 font-mono">
+          <span>{models.length} models · {formatBytes(total)}</span>
+          <span className="flex items-center gap-3">
+            <button onClick={onRefresh} title="Refresh" className="hover:text-[var(--foreground)] transition-colors">
+              <RefreshCw size={14} />
+            </button>
+            <button
+              onClick={() => {
+                if (!confirm('Delete every downloaded model? They will be downloaded again when needed.')) return;
+                run(clearModelCache);
+              }}
+              disabled={models.length === 0}
+              className="text-red-400 hover:text-red-300 disabled:opacity-40 font-sans font-medium"
+            >
+              Clear all
+            </button>
+          </span>
+        </div>
+
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+        <div className="max-h-[50vh] overflow-y-auto custom-scrollbar space-y-2 pr-1">
+          {!isCacheAvailable() && (
+            <p className="text-sm text-[var(--muted-foreground)] text-center py-8">This browser does not expose Cache Storage.</p>
+          )}
+          {isCacheAvailable() && models.length === 0 && (
+            <p className="text-sm text-[var(--muted-foreground)] text-center py-8">No models downloaded yet.</p>
+          )}
+          {models.map(model => (
+            <div key={model.id} className="rounded-xl border border-[var(--border)] bg-[var(--background)]/50">
+              <div className="flex items-center gap-3 p-3">
+                <button
+                  onClick={() => setExpanded(expanded === model.id ? null : model.id)}
+                  className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                >
+                  {expanded === model.id
+                    ? <ChevronDown size={16} className="text-[var(--muted-foreground)] shrink-0" />
+                    : <ChevronRight size={16} className="text-[var(--muted-foreground)] shrink-0" />}
+                  <span className="min-w-0">
+                    <span className="block font-medium text-[var(--foreground)] truncate">{model.id}</span>
+                    <span className="block text-xs text-[var(--muted-foreground)] font-mono mt-0.5 truncate">
+                      {formatBytes(model.size)} · {model.files.length} files · {model.lastUsed ? `used ${new Date(model.lastUsed).toLocaleString()}` : 'never used'}
+                    </span>
+                  </span>
+                </button>
+                <button
+                  onClick={() => {
+                    if (!confirm(`Delete the cached files of ${model.id}?`)) return;
+                    run(() => deleteCachedModel(model));
+                  }}
+                  title="Delete"
+                  className="p-2 text-[var(--muted-foreground)] hover:text-red-400 hover:bg-[var(--secondary)] rounded-lg transition-colors"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              {expanded === model.id && (
+                <ul className="px-4 pb-3 space-y-1">
+                  {model.files.map(file => (
+                    <li key={file.url} className="flex justify-between gap-4 text-xs font-mono text-[var(--muted-foreground)]">
+                      <span className="truncate">{file.path}</span>
+                      <span className="shrink-0">{formatBytes(file.size)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
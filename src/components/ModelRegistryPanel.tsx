@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { X, Boxes, Plus, Trash2, Cloud, FolderOpen, Download, Loader2 } from 'lucide-react';
+import {
+  ModelRegistry, ModelEntry, ModelDtype, ModelSource, DTYPES, listModels, createCustomModel,
+  addCustomModel, removeCustomModel, setModelDtype, estimateDownloadBytes, estimateMemoryBytes
+} from '../lib/modelRegistry';
+import { formatBytes } from '../lib/format';
+
+interface ModelRegistryPanelProps {
+  registry: ModelRegistry;
+  downloadedModels: string[];
+  // Model currently being downloaded for offline use, and its overall percentage
+  prefetching: string | null;
+  prefetchProgress?: number;
+  canPrefetch: boolean;
+  onPrefetch: (entry: ModelEntry) => void;
+  onChange: (registry: ModelRegistry) => void;
+  onClose: () => void;
+}
+
+function DtypeSelect({ value, onChange }: { value: ModelDtype, onChange: (dtype: ModelDtype) => void }) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as ModelDtype)}
+      className="bg-[var(--secondary)] border border-[var(--border)] rounded-md px-1.5 py-1 text-xs font-mono text-[var(--foreground)] outline-none cursor-pointer"
+    >
+      {DTYPES.map(dtype => (
+        <option key={dtype} value={dtype} className="bg-[var(--card)] text-[var(--foreground)]">{dtype}</option>
+      ))}
+    </select>
+  );
+}
+
+export default function ModelRegistryPanel({
+  registry, downloadedModels, prefetching, prefetchProgress, canPrefetch, onPrefetch, onChange, onClose
+}: ModelRegistryPanelProps) {
+  const [draft, setDraft] = useState({ id: '', label: '', source: 'hub' as ModelSource, params: '' });
+  const models = listModels(registry);
+
+  const addModel = () => {
+    const entry = createCustomModel(draft.id, draft.label, draft.source, Number(draft.params));
+    if (!entry.id) return;
+    onChange(addCustomModel(registry, entry));
+    setDraft({ id: '', label: '', source: draft.source, params: '' });
+  };
+
+  const updateDtype = (entry: ModelEntry, part: 'encoder' | 'decoder', dtype: ModelDtype) => {
+    onChange(setModelDtype(registry, entry.id, { ...entry.dtype, [part]: dtype }));
+  };
+
+  const inputClass = "bg-[var(--secondary)] border border-[var(--border)] rounded-md px-2 py-1.5 text-sm text-[var(--foreground)] outline-none";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.95, opacity: 0, y: 20 }}
+        transition={{ duration: 0.3, ease: "easeOut" }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-[var(--card)] border border-[var(--border)] rounded-[var(--radius)] p-8 max-w-2xl w-full shadow-2xl relative"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 text-[var(--muted-foreground)] hover:text-[var(--foreground)] bg-[var(--secondary)] rounded-full transition-colors"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="w-12 h-12 bg-[var(--secondary)] text-[var(--foreground)] rounded-xl flex items-center justify-center mb-6 border border-[var(--border)]">
+          <Boxes size={24} />
+        </div>
+        <h3 className="text-xl font-semibold tracking-tight text-[var(--foreground)] mb-2">Models</h3>
+        <p className="text-sm text-[var(--muted-foreground)] mb-6">
+          Pick the precision of each model's encoder and decoder. Lower precision downloads less and uses less memory at a small cost in accuracy. Download a model ahead of time to transcribe without a connection.
+        </p>
+
+        <div className="max-h-[40vh] overflow-y-auto custom-scrollbar space-y-2 pr-1 mb-6">
+          {models.map(entry => (
+            <div key={entry.id} className="flex items-center gap-3 p-3 rounded-xl border border-[var(--border)] bg-[var(--background)]/50">
+              {entry.source === 'local'
+                ? <FolderOpen size={16} className="text-[var(--muted-foreground)] shrink-0" />
+                : <Cloud size={16} className="text-[var(--muted-foreground)] shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-[var(--foreground)] truncate">
+                  {entry.label} {downloadedModels.includes(entry.id) && <span className="text-xs text-emerald-400 font-normal">Ready</span>}
+                </p>
+                <p className="text-xs text-[var(--muted-foreground)] font-mono mt-0.5 truncate">
+                  {entry.id} · ~{formatBytes(estimateDownloadBytes(entry))} download · ~{formatBytes(estimateMemoryBytes(entry))} memory
+                </p>
+              </div>
+              <div className="flex items-center gap-1 text-xs text-[var(--muted-foreground)]">
+                <span title="Encoder">Enc</span>
+                <DtypeSelect value={entry.dtype.encoder} onChange={(dtype) => updateDtype(entry, 'encoder', dtype)} />
+                <span title="Decoder" className="ml-1">Dec</span>
+                <DtypeSelect value={entry.dtype.decoder} onChange={(dtype) => updateDtype(entry, 'decoder', dtype)} />
+              </div>
+              {prefetching === entry.id ? (
+                <span className="flex items-center gap-1.5 p-2 text-xs font-mono text-[var(--muted-foreground)]">
+                  <Loader2 size={16} className="animate-spin" />
+                  {prefetchProgress !== undefined && `${Math.round(prefetchProgress)}%`}
+                </span>
+              ) : !downloadedModels.includes(entry.id) && (
+                <button
+                  onClick={() => onPrefetch(entry)}
+                  disabled={!canPrefetch || prefetching !== null}
+                  title="Download for offline use"
+                  className="p-2 text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--secondary)] rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  <Download size={16} />
+                </button>
+              )}
+              {!entry.builtIn && (
+                <button
+                  onClick={() => onChange(removeCustomModel(registry, entry.id))}
+                  title="Remove"
+                  className="p-2 text-[var(--muted-foreground)] hover:text-red-400 hover:bg-[var(--secondary)] rounded-lg transition-colors"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 pt-6 border-t border-[var(--border)]">
+          <h4 className="text-xs font-medium text-[var(--muted-foreground)] uppercase tracking-wider">Add a model</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-[auto_1fr] gap-2">
+            <select
+              value={draft.source}
+              onChange={(e) => setDraft({ ...draft, source: e.target.value as ModelSource })}
+              className={`${inputClass} cursor-pointer`}
+            >
+              <option value="hub" className="bg-[var(--card)] text-[var(--foreground)]">Hugging Face</option>
+              <option value="local" className="bg-[var(--card)] text-[var(--foreground)]">Local folder</option>
+            </select>
+            <input
+              value={draft.id}
+              onChange={(e) => setDraft({ ...draft, id: e.target.value })}
+              onKeyDown={(e) => { if (e.key === 'Enter') addModel(); }}
+              placeholder={draft.source === 'hub' ? 'owner/whisper-model (ONNX export)' : 'Folder name under the local model path'}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_140px_auto] gap-2">
+            <input
+              value={draft.label}
+              onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+              placeholder="Display name (optional)"
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min={1}
+              value={draft.params}
+              onChange={(e) => setDraft({ ...draft, params: e.target.value })}
+              placeholder="Params (M)"
+              title="Parameter count in millions, used for size estimates"
+              className={inputClass}
+            />
+            <button
+              onClick={addModel}
+              disabled={!draft.id.trim()}
+              className="flex items-center justify-center gap-1.5 px-4 py-1.5 rounded-md bg-[var(--foreground)] text-[var(--background)] text-sm font-medium disabled:opacity-50"
+            >
+              <Plus size={14} /> Add
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-[var(--muted-foreground)]">
+            Local model path
+            <input
+              value={registry.localModelPath}
+              onChange={(e) => onChange({ ...registry, localModelPath: e.target.value })}
+              className={`${inputClass} flex-1 font-mono text-xs`}
+            />
+          </label>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
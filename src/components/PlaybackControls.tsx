@@ -0,0 +1,106 @@
+import React from 'react';
+import { Gauge, RotateCcw, Repeat, Repeat1, TextSelect, X, ChevronsLeft, ChevronsRight, SkipBack, SkipForward, Keyboard } from 'lucide-react';
+import { Loop, PlaybackSettings, PLAYBACK_RATES, ShortcutAction, ShortcutMap } from '../lib/playback';
+
+interface PlaybackControlsProps {
+  settings: PlaybackSettings;
+  onSettingsChange: (settings: PlaybackSettings) => void;
+  loop: Loop | null;
+  // Shown briefly when a loop could not start, e.g. nothing selected
+  hint: string | null;
+  shortcuts: ShortcutMap;
+  onAction: (action: ShortcutAction) => void;
+  onShowShortcuts: () => void;
+}
+
+const AUTO_REWIND_OPTIONS = [0, 1, 2, 3, 5];
+
+export default function PlaybackControls({ settings, onSettingsChange, loop, hint, shortcuts, onAction, onShowShortcuts }: PlaybackControlsProps) {
+  const update = <K extends keyof PlaybackSettings>(key: K, value: PlaybackSettings[K]) => {
+    onSettingsChange({ ...settings, [key]: value });
+  };
+  const title = (label: string, action: ShortcutAction) => shortcuts[action] ? `${label} (${shortcuts[action]})` : label;
+  const button = 'p-2 bg-[var(--secondary)] text-[var(--foreground)] rounded-lg hover:bg-[var(--border)] transition-colors border border-[var(--border)]';
+
+  return (
+    <div className="bg-[var(--card)] border border-[var(--border)] rounded-[var(--radius)] px-5 py-3 shadow-sm flex flex-wrap items-center gap-x-5 gap-y-3 text-sm">
+      <label className="flex items-center gap-2 text-[var(--muted-foreground)]" title={title('Playback speed', 'faster')}>
+        <Gauge size={16} />
+        <select
+          value={settings.rate}
+          onChange={(e) => update('rate', Number(e.target.value))}
+          className="bg-[var(--secondary)] border border-[var(--border)] rounded-md px-2 py-1 text-sm font-mono text-[var(--foreground)] outline-none cursor-pointer"
+        >
+          {PLAYBACK_RATES.map(rate => (
+            <option key={rate} value={rate} className="bg-[var(--card)]">{rate}×</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 text-[var(--muted-foreground)] cursor-pointer">
+        <input type="checkbox" checked={settings.preservePitch} onChange={(e) => update('preservePitch', e.target.checked)} />
+        Keep pitch
+      </label>
+      <label className="flex items-center gap-2 text-[var(--muted-foreground)]" title="Step back this far when resuming after a pause">
+        <RotateCcw size={16} />
+        <select
+          value={settings.autoRewind}
+          onChange={(e) => update('autoRewind', Number(e.target.value))}
+          className="bg-[var(--secondary)] border border-[var(--border)] rounded-md px-2 py-1 text-sm text-[var(--foreground)] outline-none cursor-pointer"
+        >
+          {AUTO_REWIND_OPTIONS.map(seconds => (
+            <option key={seconds} value={seconds} className="bg-[var(--card)]">{seconds ? `Rewind ${seconds}s on resume` : 'No auto-rewind'}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="w-px h-6 bg-[var(--border)] hidden md:block" />
+
+      <div className="flex items-center gap-1.5">
+        <button onClick={() => onAction('prevTurn')} title={title('Previous speaker turn', 'prevTurn')} className={button}>
+          <SkipBack size={16} />
+        </button>
+        <button onClick={() => onAction('prevSegment')} title={title('Previous segment', 'prevSegment')} className={button}>
+          <ChevronsLeft size={16} />
+        </button>
+        <button onClick={() => onAction('nextSegment')} title={title('Next segment', 'nextSegment')} className={button}>
+          <ChevronsRight size={16} />
+        </button>
+        <button onClick={() => onAction('nextTurn')} title={title('Next speaker turn', 'nextTurn')} className={button}>
+          <SkipForward size={16} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <button onClick={() => onAction('loopWord')} title={title('Loop current word', 'loopWord')} className={button}>
+          <Repeat1 size={16} />
+        </button>
+        <button onClick={() => onAction('loopSentence')} title={title('Loop current sentence', 'loopSentence')} className={button}>
+          <Repeat size={16} />
+        </button>
+        {/* Keep the transcript selection: a focused button would otherwise clear it */}
+        <button
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onAction('loopSelection')}
+          title={title('Loop the words selected in the transcript', 'loopSelection')}
+          className={button}
+        >
+          <TextSelect size={16} />
+        </button>
+        {loop ? (
+          <span className="flex items-center gap-1.5 ml-1 px-2 py-1 rounded-md bg-[var(--foreground)] text-[var(--background)] text-xs font-medium max-w-[220px]">
+            <span className="truncate">Looping {loop.label}</span>
+            <button onClick={() => onAction('stopLoop')} title={title('Stop looping', 'stopLoop')}>
+              <X size={12} />
+            </button>
+          </span>
+        ) : hint && (
+          <span className="ml-1 text-xs text-[var(--muted-foreground)]">{hint}</span>
+        )}
+      </div>
+
+      <button onClick={onShowShortcuts} title="Keyboard shortcuts" className="ml-auto p-2 text-[var(--muted-foreground)] hover:text-[var(--foreground)] transition-colors">
+        <Keyboard size={16} />
+      </button>
+    </div>
+  );
+}
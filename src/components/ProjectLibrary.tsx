@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'motion/react';
+import { X, Library, FolderOpen, Pencil, Copy, Trash2, AlertTriangle, Loader2, HardDrive } from 'lucide-react';
+import {
+  ProjectSummary, listProjects, updateProject, duplicateProject, deleteProject,
+  getStorageEstimate, QUOTA_WARNING_RATIO
+} from '../lib/projectStore';
+import { formatBytes } from '../lib/format';
+
+interface ProjectLibraryProps {
+  currentProjectId: string | null;
+  onOpen: (id: string) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+export default function ProjectLibrary({ currentProjectId, onOpen, onDeleted, onClose }: ProjectLibraryProps) {
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+  const [storage, setStorage] = useState<{ usage: number, quota: number } | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string, name: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, estimate] = await Promise.all([listProjects(), getStorageEstimate()]);
+      setProjects(list);
+      setStorage(estimate);
+    } catch (err: any) {
+      setError(`Could not read the project library: ${err.message}`);
+      setProjects([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setError(null);
+      await action();
+      await refresh();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const commitRename = () => {
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    setRenaming(null);
+    if (name) run(() => updateProject(renaming.id, { name }));
+  };
+
+  const usageRatio = storage && storage.quota > 0 ? storage.usage / storage.quota : 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.95, opacity: 0, y: 20 }}
+        transition={{ duration: 0.3, ease: "easeOut" }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-[var(--card)] border border-[var(--border)] rounded-[var(--radius)] p-8 max-w-2xl w-full shadow-2xl relative"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 text-[var(--muted-foreground)] hover:text-[var(--foreground)] bg-[var(--secondary)] rounded-full transition-colors"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="w-12 h-12 bg-[var(--secondary)] text-[var(--foreground)] rounded-xl flex items-center justify-center mb-6 border border-[var(--border)]">
+          <Library size={24} />
+        </div>
+        <h3 className="text-xl font-semibold tracking-tight text-[var(--foreground)] mb-2">Project Library</h3>
+        <p className="text-sm text-[var(--muted-foreground)] mb-6">Transcriptions are saved in this browser, together with their media.</p>
+
+        {storage && (
+          <div className="mb-6">
+            <div className="flex justify-between text-xs text-[var(--muted-foreground)] mb-2 font-mono">
+              <span className="flex items-center gap-1.5"><HardDrive size={12} /> Storage used</span>
+              <span>{formatBytes(storage.usage)} / {formatBytes(storage.quota)}</span>
+            </div>
+            <div className="h-1.5 bg-[var(--secondary)] rounded-full overflow-hidden">
+              <div
+                className={`h-full ${usageRatio >= QUOTA_WARNING_RATIO ? 'bg-amber-500' : 'bg-[var(--foreground)]'}`}
+                style={{ width: `${Math.min(100, usageRatio * 100)}%` }}
+              />
+            </div>
+            {usageRatio >= QUOTA_WARNING_RATIO && (
+              <p className="text-xs text-amber-400 mt-2 flex items-center gap-1.5">
+                <AlertTriangle size={12} /> Storage is almost full. Delete old projects to keep saving new ones.
+              </p>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+        <div className="max-h-[50vh] overflow-y-auto custom-scrollbar space-y-2 pr-1">
+          {projects === null && (
+            <div className="flex justify-center py-8"><Loader2 className="w-6 h-6 animate-spin text-[var(--muted-foreground)]" /></div>
+          )}
+          {projects?.length === 0 && (
+            <p className="text-sm text-[var(--muted-foreground)] text-center py-8">No saved projects yet.</p>
+          )}
+          {projects?.map(project => (
+            <div
+              key={project.id}
+              className={`flex items-center gap-3 p-3 rounded-xl border ${project.id === currentProjectId ? 'border-[var(--foreground)]' : 'border-[var(--border)]'} bg-[var(--background)]/50`}
+            >
+              <div className="flex-1 min-w-0">
+                {renaming?.id === project.id ? (
+                  <input
+                    autoFocus
+                    value={renaming.name}
+                    onChange={(e) => setRenaming({ id: project.id, name: e.target.value })}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    className="w-full bg-[var(--secondary)] border border-[var(--border)] rounded-md px-2 py-1 text-sm text-[var(--foreground)] outline-none"
+                  />
+                ) : (
+                  <p className="font-medium text-[var(--foreground)] truncate">{project.name}</p>
+                )}
+                <p className="text-xs text-[var(--muted-foreground)] font-mono mt-0.5 truncate">
+                  {new Date(project.updatedAt).toLocaleString()} · {project.wordCount} words · {formatBytes(project.mediaSize)} · {project.settings.model.split('/').pop()}
+                </p>
+              </div>
+              <button onClick={() => onOpen(project.id)} title="Open" className="p-2 text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--secondary)] rounded-lg transition-colors">
+                <FolderOpen size={16} />
+              </button>
+              <button onClick={() => setRenaming({ id: project.id, name: project.name })} title="Rename" className="p-2 text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--secondary)] rounded-lg transition-colors">
+                <Pencil size={16} />
+              </button>
+              <button onClick={() => run(() => duplicateProject(project.id))} title="Duplicate" className="p-2 text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--secondary)] rounded-lg transition-colors">
+                <Copy size={16} />
+              </button>
+              <button
+                onClick={() => {
+                  if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+                  run(async () => {
+                    await deleteProject(project.id);
+                    onDeleted(project.id);
+                  });
+                }}
+                title="Delete"
+                className="p-2 text-[var(--muted-foreground)] hover:text-red-400 hover:bg-[var(--secondary)] rounded-lg transition-colors"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
+
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { ScrollText, FileUp, X } from 'lucide-react';
+import { importTranscript } from '../lib/importers';
+import { splitReference } from '../lib/alignment';
+
+interface ReferenceScriptProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Script for alignment mode, pasted or loaded from a text file (or the text of a subtitle/JSON transcript)
+export default function ReferenceScript({ value, onChange }: ReferenceScriptProps) {
+  const [open, setOpen] = useState(!!value);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const extension = file.name.split('.').pop()?.toLowerCase();
+      const text = ['srt', 'vtt', 'json'].includes(extension ?? '') ? (await importTranscript(file)).text : await file.text();
+      if (!text.trim()) throw new Error(`${file.name} is empty.`);
+      onChange(text);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 mx-auto mb-8 text-sm text-[var(--muted-foreground)] hover:text-[var(--foreground)] transition-colors"
+      >
+        <ScrollText size={16} /> Already have the script? Align it instead
+      </button>
+    );
+  }
+
+  const wordCount = splitReference(value).length;
+  return (
+    <div className="max-w-2xl mx-auto mb-8 text-left">
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center gap-2 text-xs font-medium text-[var(--muted-foreground)] uppercase tracking-wider">
+          <ScrollText size={14} /> Script to align
+        </span>
+        <span className="flex items-center gap-3 text-xs text-[var(--muted-foreground)]">
+          <span className="font-mono">{wordCount} words</span>
+          <label className="flex items-center gap-1.5 cursor-pointer hover:text-[var(--foreground)] transition-colors">
+            <FileUp size={14} /> Load file
+            <input type="file" accept=".txt,.md,.srt,.vtt,.json,text/plain" onChange={loadFile} className="hidden" />
+          </label>
+          <button
+            onClick={() => {
+              onChange('');
+              setError(null);
+              setOpen(false);
+            }}
+            title="Transcribe normally"
+            className="hover:text-[var(--foreground)] transition-colors"
+          >
+            <X size={14} />
+          </button>
+        </span>
+      </div>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={6}
+        placeholder="Paste the exact words spoken (show notes, lecture script, lyrics)..."
+        className="w-full bg-[var(--secondary)] border border-[var(--border)] rounded-lg px-3 py-2 text-sm text-[var(--foreground)] outline-none focus:border-[var(--foreground)] resize-y custom-scrollbar"
+      />
+      <p className={`text-xs mt-1 ${error ? 'text-red-400' : 'text-[var(--muted-foreground)]'}`}>
+        {error ?? 'Whisper transcribes as usual, then the script\'s own words take over its timings. Words it cannot place are flagged.'}
+      </p>
+    </div>
+  );
+}
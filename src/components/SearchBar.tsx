@@ -0,0 +1,90 @@
+import React, { useEffect, useRef } from 'react';
+import { Search, ChevronUp, ChevronDown, X, CaseSensitive, WholeWord, Regex } from 'lucide-react';
+import type { SearchOptions } from '../lib/search';
+
+interface SearchBarProps {
+  query: string;
+  options: SearchOptions;
+  hitCount: number;
+  // Index of the current hit, -1 before the first step
+  activeHit: number;
+  error?: string;
+  onQueryChange: (query: string) => void;
+  onOptionsChange: (options: SearchOptions) => void;
+  onStep: (direction: 1 | -1) => void;
+}
+
+const TOGGLES: { key: keyof SearchOptions, title: string, icon: typeof Search }[] = [
+  { key: 'matchCase', title: 'Match case', icon: CaseSensitive },
+  { key: 'wholeWord', title: 'Whole word', icon: WholeWord },
+  { key: 'regex', title: 'Regular expression', icon: Regex },
+];
+
+// Ctrl/Cmd+F focuses the field; Enter / F3 step forward, Shift+Enter / Shift+F3 back
+export default function SearchBar({ query, options, hitCount, activeHit, error, onQueryChange, onOptionsChange, onStep }: SearchBarProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      } else if (e.key === 'F3') {
+        e.preventDefault();
+        onStep(e.shiftKey ? -1 : 1);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onStep]);
+
+  return (
+    <div className="flex items-center gap-2 mb-4 bg-[var(--secondary)] px-3 py-2 rounded-lg border border-[var(--border)]">
+      <Search className="w-4 h-4 text-[var(--muted-foreground)] shrink-0" />
+      <input
+        ref={inputRef}
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            onStep(e.shiftKey ? -1 : 1);
+          } else if (e.key === 'Escape') {
+            onQueryChange('');
+            inputRef.current?.blur();
+          }
+        }}
+        placeholder="Search transcript..."
+        className="flex-1 min-w-0 bg-transparent text-sm text-[var(--foreground)] outline-none"
+      />
+      {query && (
+        <span className={`text-xs font-mono whitespace-nowrap ${error ? 'text-red-400' : 'text-[var(--muted-foreground)]'}`} title={error}>
+          {error ? 'Invalid pattern' : hitCount === 0 ? 'No results' : `${activeHit >= 0 ? activeHit + 1 : '-'} / ${hitCount}`}
+        </span>
+      )}
+      {TOGGLES.map(({ key, title, icon: Icon }) => (
+        <button
+          key={key}
+          onClick={() => onOptionsChange({ ...options, [key]: !options[key] })}
+          title={title}
+          className={`p-1 rounded-md transition-colors ${options[key] ? 'bg-[var(--foreground)] text-[var(--background)]' : 'text-[var(--muted-foreground)] hover:text-[var(--foreground)]'}`}
+        >
+          <Icon size={16} />
+        </button>
+      ))}
+      <div className="w-px h-5 bg-[var(--border)]" />
+      <button onClick={() => onStep(-1)} disabled={hitCount === 0} title="Previous match (Shift+Enter)" className="p-1 text-[var(--muted-foreground)] hover:text-[var(--foreground)] disabled:opacity-40">
+        <ChevronUp size={16} />
+      </button>
+      <button onClick={() => onStep(1)} disabled={hitCount === 0} title="Next match (Enter)" className="p-1 text-[var(--muted-foreground)] hover:text-[var(--foreground)] disabled:opacity-40">
+        <ChevronDown size={16} />
+      </button>
+      {query && (
+        <button onClick={() => onQueryChange('')} title="Clear search" className="p-1 text-[var(--muted-foreground)] hover:text-[var(--foreground)]">
+          <X size={16} />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'motion/react';
+import { X, Keyboard, RotateCcw } from 'lucide-react';
+import { ShortcutAction, ShortcutMap, SHORTCUT_LABELS, DEFAULT_SHORTCUTS, keyCombo } from '../lib/playback';
+
+interface ShortcutsPanelProps {
+  shortcuts: ShortcutMap;
+  onChange: (shortcuts: ShortcutMap) => void;
+  onClose: () => void;
+}
+
+// Click a binding, then press the new combination: Escape cancels, Backspace unbinds.
+// A combination already bound elsewhere moves to the new action.
+export default function ShortcutsPanel({ shortcuts, onChange, onClose }: ShortcutsPanelProps) {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  useEffect(() => {
+    if (!recording) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      const combo = e.key === 'Backspace' ? '' : keyCombo(e);
+      if (combo === null) return;
+      const next = { ...shortcuts };
+      if (combo) {
+        for (const action of Object.keys(next) as ShortcutAction[]) {
+          if (next[action] === combo) next[action] = '';
+        }
+      }
+      next[recording] = combo;
+      onChange(next);
+      setRecording(null);
+    };
+    // Capture phase, ahead of the app's own shortcut listener
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [recording, shortcuts, onChange]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.95, opacity: 0, y: 20 }}
+        transition={{ duration: 0.3, ease: "easeOut" }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-[var(--card)] border border-[var(--border)] rounded-[var(--radius)] p-8 max-w-lg w-full max-h-[90vh] overflow-y-auto shadow-2xl relative"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 text-[var(--muted-foreground)] hover:text-[var(--foreground)] bg-[var(--secondary)] rounded-full transition-colors"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="w-12 h-12 bg-[var(--secondary)] text-[var(--foreground)] rounded-xl flex items-center justify-center mb-6 border border-[var(--border)]">
+          <Keyboard size={24} />
+        </div>
+        <h3 className="text-xl font-semibold tracking-tight text-[var(--foreground)] mb-2">Keyboard Shortcuts</h3>
+        <p className="text-sm text-[var(--muted-foreground)] mb-6">
+          Click a shortcut and press the new keys. Combinations with Ctrl, Alt or Meta also work while typing in a text field.
+        </p>
+
+        <div className="divide-y divide-[var(--border)] border-y border-[var(--border)] mb-6">
+          {(Object.keys(SHORTCUT_LABELS) as ShortcutAction[]).map(action => (
+            <div key={action} className="flex items-center justify-between py-2 text-sm">
+              <span className="text-[var(--foreground)]">{SHORTCUT_LABELS[action]}</span>
+              <button
+                onClick={() => setRecording(recording === action ? null : action)}
+                className={`min-w-[120px] px-3 py-1 rounded-md border font-mono text-xs transition-colors ${recording === action
+                  ? 'border-[var(--foreground)] bg-[var(--foreground)] text-[var(--background)]'
+                  : 'border-[var(--border)] bg-[var(--secondary)] text-[var(--foreground)] hover:border-[var(--foreground)]'}`}
+              >
+                {recording === action ? 'Press keys...' : shortcuts[action] || 'Unbound'}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={() => onChange(DEFAULT_SHORTCUTS)}
+          className="text-xs text-[var(--muted-foreground)] hover:text-[var(--foreground)] flex items-center gap-1 transition-colors"
+        >
+          <RotateCcw size={12} /> Reset to defaults
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import type { TranscriptionOutput } from '../types';
+import { listSpeakers, renameSpeaker, mergeSpeakers, setSpeakerColor } from '../lib/speakers';
+
+interface SpeakerPanelProps {
+  transcription: TranscriptionOutput;
+  onEdit: (next: TranscriptionOutput) => void;
+}
+
+function SpeakerName({ name, onRename }: { name: string, onRename: (name: string) => void }) {
+  const [draft, setDraft] = useState(name);
+  const commit = () => {
+    if (draft.trim() && draft.trim() !== name) onRename(draft);
+    else setDraft(name);
+  };
+
+  return (
+    <input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+        if (e.key === 'Escape') setDraft(name);
+      }}
+      className="flex-1 min-w-0 bg-[var(--card)] border border-[var(--border)] rounded-lg px-3 py-1.5 text-sm text-[var(--foreground)] outline-none focus:border-[var(--foreground)]"
+    />
+  );
+}
+
+export default function SpeakerPanel({ transcription, onEdit }: SpeakerPanelProps) {
+  const speakers = listSpeakers(transcription);
+
+  return (
+    <div className="bg-[var(--secondary)]/40 border border-[var(--border)] rounded-xl p-5 mb-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-medium text-[var(--muted-foreground)] uppercase tracking-wider">Speakers</h4>
+        <span className="text-xs text-[var(--muted-foreground)]">Rename onto an existing name to merge</span>
+      </div>
+
+      {speakers.length === 0 && (
+        <p className="text-sm text-[var(--muted-foreground)]">No speaker labels yet. Select words in edit mode to assign them.</p>
+      )}
+
+      {speakers.map(speaker => (
+        <div key={speaker.name} className="flex items-center gap-3">
+          <input
+            type="color"
+            value={speaker.color}
+            onChange={(e) => onEdit(setSpeakerColor(transcription, speaker.name, e.target.value))}
+            title="Speaker colour"
+            className="w-8 h-8 shrink-0 rounded-md border border-[var(--border)] bg-transparent cursor-pointer"
+          />
+          <SpeakerName name={speaker.name} onRename={(name) => onEdit(renameSpeaker(transcription, speaker.name, name))} />
+          <span className="text-xs text-[var(--muted-foreground)] font-mono whitespace-nowrap w-28 text-right">
+            {speaker.wordCount} words · {Math.round(speaker.duration)}s
+          </span>
+          <select
+            value=""
+            disabled={speakers.length < 2}
+            onChange={(e) => e.target.value && onEdit(mergeSpeakers(transcription, speaker.name, e.target.value))}
+            className="bg-[var(--card)] border border-[var(--border)] rounded-lg px-2 py-1.5 text-sm text-[var(--foreground)] outline-none disabled:opacity-40"
+          >
+            <option value="" className="bg-[var(--card)]">Merge into…</option>
+            {speakers.filter(other => other.name !== speaker.name).map(other => (
+              <option key={other.name} value={other.name} className="bg-[var(--card)]">{other.name}</option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+}
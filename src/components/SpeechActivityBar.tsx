@@ -0,0 +1,42 @@
+import React from 'react';
+import type { SpeechRegion } from '../types';
+
+interface SpeechActivityBarProps {
+  regions: SpeechRegion[];
+  duration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+// Speech (filled) and silence (empty) detected by the VAD pre-pass; click to seek
+export default function SpeechActivityBar({ regions, duration, currentTime, onSeek }: SpeechActivityBarProps) {
+  if (duration <= 0) return null;
+  const speech = regions.reduce((sum, r) => sum + r.end - r.start, 0);
+  const percent = (time: number) => `${Math.min(100, (time / duration) * 100)}%`;
+
+  return (
+    <div className="bg-[var(--card)] border border-[var(--border)] rounded-[var(--radius)] px-5 py-4 shadow-sm">
+      <div className="flex items-center justify-between text-xs text-[var(--muted-foreground)] mb-2">
+        <span className="uppercase tracking-wider font-medium">Speech Activity</span>
+        <span className="font-mono">{Math.round((speech / duration) * 100)}% speech · {regions.length} regions</span>
+      </div>
+      <div
+        className="relative h-6 bg-[var(--secondary)] rounded-md overflow-hidden cursor-pointer"
+        onClick={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          onSeek(((e.clientX - rect.left) / rect.width) * duration);
+        }}
+      >
+        {regions.map((region, i) => (
+          <div
+            key={i}
+            className="absolute inset-y-0 bg-emerald-500/50"
+            style={{ left: percent(region.start), width: percent(region.end - region.start) }}
+            title={`Speech ${region.start.toFixed(1)}s - ${region.end.toFixed(1)}s`}
+          />
+        ))}
+        <div className="absolute inset-y-0 w-0.5 bg-[var(--foreground)]" style={{ left: percent(currentTime) }} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,389 @@
+import React, { useState, useRef, useEffect, useMemo, useLayoutEffect } from 'react';
+import { ZoomIn, ZoomOut, Maximize2, Loader2 } from 'lucide-react';
+import type { TranscriptionOutput, WordTimestamp } from '../types';
+import { Peaks, PEAKS_PER_S } from '../lib/waveform';
+import { wordText, wordStart, wordEnd } from '../lib/transcript';
+import { retimeWord } from '../lib/transcriptEditor';
+import { SPEAKER_PALETTE } from '../lib/speakers';
+
+interface TimelineProps {
+  transcription: TranscriptionOutput;
+  // Null while the media is still being decoded
+  peaks: Peaks | null;
+  duration: number;
+  currentTime: number;
+  isPlaying: boolean;
+  speakerColors: Record<string, string>;
+  onSeek: (time: number) => void;
+  onPlayRange: (start: number, end: number) => void;
+  // Omitted while the transcript can't be edited
+  onEdit?: (next: TranscriptionOutput) => void;
+}
+
+const WAVE_HEIGHT = 72;
+const RULER_HEIGHT = 16;
+const LANE_HEIGHT = 32;
+const MAX_PX_PER_S = 200;
+const DEFAULT_PX_PER_S = 60;
+// Shortest word a drag can leave behind
+const MIN_WORD_S = 0.05;
+// Boundaries closer than this are treated as shared and move together
+const LINK_S = 0.02;
+// Words of one speaker separated by less than this share a segment box
+const SEGMENT_GAP_S = 1;
+const TICK_STEPS = [0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 1800];
+const MIN_TICK_PX = 70;
+
+interface Drag {
+  index: number;
+  edge: 'start' | 'end';
+  // Neighbour whose touching boundary moves along, if any
+  linked: number | null;
+  start: number;
+  end: number;
+}
+
+interface Segment {
+  speaker: string;
+  start: number;
+  end: number;
+}
+
+function formatTick(seconds: number, step: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${(step < 1 ? s.toFixed(1) : Math.round(s).toString()).padStart(step < 1 ? 4 : 2, '0')}`;
+}
+
+// Index of the first word ending after `time`; words are in time order
+function firstVisible(chunks: WordTimestamp[], time: number): number {
+  let lo = 0;
+  let hi = chunks.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (wordEnd(chunks[mid]) < time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Zoomable waveform with one lane per speaker. The waveform canvas only covers the visible
+// stretch and word boxes are only rendered for it, so hour-long media stays responsive.
+export default function Timeline({ transcription, peaks, duration, currentTime, isPlaying, speakerColors, onSeek, onPlayRange, onEdit }: TimelineProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [viewWidth, setViewWidth] = useState(0);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [pxPerS, setPxPerS] = useState(DEFAULT_PX_PER_S);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  // Time kept under the same x position across a zoom: [time, offset in the view]
+  const zoomAnchorRef = useRef<[number, number] | null>(null);
+
+  const chunks = transcription.chunks;
+  const minPxPerS = duration > 0 && viewWidth > 0 ? Math.min(viewWidth / duration, MAX_PX_PER_S) : 1;
+  const totalWidth = Math.max(viewWidth, duration * pxPerS);
+  const viewStart = scrollLeft / pxPerS;
+  const viewEnd = (scrollLeft + viewWidth) / pxPerS;
+
+  const lanes: string[] = useMemo(() => {
+    const names: string[] = [];
+    for (const chunk of chunks) {
+      const name = chunk.speaker ?? '';
+      if (!names.includes(name)) names.push(name);
+    }
+    return names.length > 0 ? names : [''];
+  }, [chunks]);
+
+  const segments: Segment[] = useMemo(() => {
+    const result: Segment[] = [];
+    const open = new Map<string, Segment>();
+    for (const chunk of chunks) {
+      const speaker = chunk.speaker ?? '';
+      const current = open.get(speaker);
+      if (current && wordStart(chunk) - current.end < SEGMENT_GAP_S) {
+        current.end = Math.max(current.end, wordEnd(chunk));
+      } else {
+        const segment = { speaker, start: wordStart(chunk), end: wordEnd(chunk) };
+        result.push(segment);
+        open.set(speaker, segment);
+      }
+    }
+    return result;
+  }, [chunks]);
+
+  const laneColor = (speaker: string) =>
+    speakerColors[speaker] ?? SPEAKER_PALETTE[Math.max(0, lanes.indexOf(speaker)) % SPEAKER_PALETTE.length];
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewWidth(element.clientWidth));
+    observer.observe(element);
+    setViewWidth(element.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep the zoom within "whole file fits" and the peak resolution
+  useEffect(() => {
+    if (pxPerS < minPxPerS) setPxPerS(minPxPerS);
+  }, [minPxPerS]);
+
+  useLayoutEffect(() => {
+    const anchor = zoomAnchorRef.current;
+    const element = scrollRef.current;
+    if (!anchor || !element) return;
+    zoomAnchorRef.current = null;
+    element.scrollLeft = Math.max(0, anchor[0] * pxPerS - anchor[1]);
+    setScrollLeft(element.scrollLeft);
+  }, [pxPerS]);
+
+  const zoom = (factor: number, offset = viewWidth / 2) => {
+    const next = Math.min(MAX_PX_PER_S, Math.max(minPxPerS, pxPerS * factor));
+    if (next === pxPerS) return;
+    zoomAnchorRef.current = [(scrollLeft + offset) / pxPerS, offset];
+    setPxPerS(next);
+  };
+
+  // Ctrl/Cmd + wheel zooms around the pointer; needs a non-passive listener to stop the page zoom
+  const zoomRef = useRef(zoom);
+  zoomRef.current = zoom;
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      zoomRef.current(e.deltaY < 0 ? 1.25 : 0.8, e.clientX - element.getBoundingClientRect().left);
+    };
+    element.addEventListener('wheel', onWheel, { passive: false });
+    return () => element.removeEventListener('wheel', onWheel);
+  }, []);
+
+  // Follow the playhead while playing
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element || !isPlaying || drag) return;
+    const x = currentTime * pxPerS;
+    if (x < element.scrollLeft || x > element.scrollLeft + viewWidth - 20) {
+      element.scrollLeft = Math.max(0, x - viewWidth * 0.1);
+    }
+  }, [currentTime, isPlaying]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || viewWidth === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(viewWidth * ratio);
+    canvas.height = Math.round(WAVE_HEIGHT * ratio);
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.scale(ratio, ratio);
+    context.clearRect(0, 0, viewWidth, WAVE_HEIGHT);
+
+    const style = getComputedStyle(canvas);
+    const muted = style.getPropertyValue('--muted-foreground') || '#888';
+    const border = style.getPropertyValue('--border') || '#333';
+
+    let step = TICK_STEPS.find(s => s * pxPerS >= MIN_TICK_PX) ?? TICK_STEPS[TICK_STEPS.length - 1];
+    if (step * pxPerS < MIN_TICK_PX) step = Math.ceil(MIN_TICK_PX / pxPerS / 60) * 60;
+    context.font = '10px ui-monospace, monospace';
+    context.fillStyle = muted;
+    context.strokeStyle = border;
+    context.beginPath();
+    for (let k = Math.floor(viewStart / step); k * step <= viewEnd; k++) {
+      const t = k * step;
+      const x = Math.round(t * pxPerS - scrollLeft) + 0.5;
+      context.moveTo(x, 0);
+      context.lineTo(x, WAVE_HEIGHT);
+      context.fillText(formatTick(t, step), x + 3, 11);
+    }
+    context.stroke();
+
+    if (!peaks) return;
+    const mid = RULER_HEIGHT + (WAVE_HEIGHT - RULER_HEIGHT) / 2;
+    const amplitude = (WAVE_HEIGHT - RULER_HEIGHT) / 2 - 2;
+    context.fillStyle = muted;
+    for (let x = 0; x < viewWidth; x++) {
+      const from = Math.floor(((scrollLeft + x) / pxPerS) * PEAKS_PER_S);
+      const to = Math.max(from + 1, Math.floor(((scrollLeft + x + 1) / pxPerS) * PEAKS_PER_S));
+      if (from >= peaks.max.length) break;
+      let low = 0;
+      let high = 0;
+      for (let i = from; i < Math.min(to, peaks.max.length); i++) {
+        if (peaks.min[i] < low) low = peaks.min[i];
+        if (peaks.max[i] > high) high = peaks.max[i];
+      }
+      const top = mid - high * amplitude;
+      context.fillRect(x, top, 1, Math.max(1, mid - low * amplitude - top));
+    }
+  }, [peaks, viewWidth, scrollLeft, pxPerS]);
+
+  const timeAt = (clientX: number) => {
+    const rect = contentRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, (clientX - rect.left) / pxPerS));
+  };
+
+  const startDrag = (e: React.PointerEvent<HTMLSpanElement>, index: number, edge: 'start' | 'end') => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const chunk = chunks[index];
+    const neighbour = edge === 'start' ? index - 1 : index + 1;
+    const touching = chunks[neighbour] && Math.abs(
+      edge === 'start' ? wordEnd(chunks[neighbour]) - wordStart(chunk) : wordStart(chunks[neighbour]) - wordEnd(chunk)
+    ) < LINK_S;
+    setDrag({ index, edge, linked: touching ? neighbour : null, start: wordStart(chunk), end: wordEnd(chunk) });
+  };
+
+  const moveDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const time = timeAt(e.clientX);
+    const prev = chunks[drag.index - 1];
+    const next = chunks[drag.index + 1];
+    if (drag.edge === 'start') {
+      // A shared boundary may eat into the neighbour; otherwise it stops at the neighbour's edge
+      const floor = drag.linked !== null ? wordStart(prev) + MIN_WORD_S : prev ? wordEnd(prev) : 0;
+      setDrag({ ...drag, start: Math.min(drag.end - MIN_WORD_S, Math.max(floor, time)) });
+    } else {
+      const ceiling = drag.linked !== null ? wordEnd(next) - MIN_WORD_S : next ? wordStart(next) : duration;
+      setDrag({ ...drag, end: Math.max(drag.start + MIN_WORD_S, Math.min(ceiling, time)) });
+    }
+  };
+
+  const endDrag = () => {
+    if (!drag || !onEdit) return;
+    const { index, linked, start, end } = drag;
+    setDrag(null);
+    const chunk = chunks[index];
+    if (start === wordStart(chunk) && end === wordEnd(chunk)) return;
+    let next = retimeWord(transcription, index, start, end);
+    if (linked !== null) {
+      const other = chunks[linked];
+      next = linked < index
+        ? retimeWord(next, linked, wordStart(other), start)
+        : retimeWord(next, linked, end, wordEnd(other));
+    }
+    onEdit(next);
+  };
+
+  // Word times with the boundary being dragged applied
+  const timesOf = (index: number): [number, number] => {
+    const chunk = chunks[index];
+    if (drag) {
+      if (index === drag.index) return [drag.start, drag.end];
+      if (index === drag.linked) {
+        return index < drag.index ? [wordStart(chunk), drag.start] : [drag.end, wordEnd(chunk)];
+      }
+    }
+    return [wordStart(chunk), wordEnd(chunk)];
+  };
+
+  const visibleWords: number[] = [];
+  for (let i = Math.max(0, firstVisible(chunks, viewStart) - 1); i < chunks.length && wordStart(chunks[i]) <= viewEnd; i++) {
+    visibleWords.push(i);
+  }
+
+  return (
+    <div className="bg-[var(--card)] border border-[var(--border)] rounded-[var(--radius)] px-5 py-4 shadow-sm">
+      <div className="flex items-center justify-between text-xs text-[var(--muted-foreground)] mb-2">
+        <span className="flex items-center gap-2 uppercase tracking-wider font-medium">
+          Timeline
+          {!peaks && <Loader2 size={12} className="animate-spin" />}
+        </span>
+        <span className="flex items-center gap-3">
+          <span className="font-mono">{Math.round(pxPerS)} px/s</span>
+          <button onClick={() => zoom(0.5)} disabled={pxPerS <= minPxPerS} title="Zoom out (Ctrl+wheel)" className="hover:text-[var(--foreground)] disabled:opacity-40">
+            <ZoomOut size={14} />
+          </button>
+          <button onClick={() => zoom(2)} disabled={pxPerS >= MAX_PX_PER_S} title="Zoom in (Ctrl+wheel)" className="hover:text-[var(--foreground)] disabled:opacity-40">
+            <ZoomIn size={14} />
+          </button>
+          <button onClick={() => setPxPerS(minPxPerS)} title="Fit whole file" className="hover:text-[var(--foreground)]">
+            <Maximize2 size={14} />
+          </button>
+        </span>
+      </div>
+
+      <div className="flex">
+        <div className="w-24 shrink-0 text-xs">
+          <div style={{ height: WAVE_HEIGHT }} />
+          {lanes.map(lane => (
+            <div key={lane} className="flex items-center gap-1.5 truncate pr-2" style={{ height: LANE_HEIGHT, color: lane ? laneColor(lane) : undefined }}>
+              {lane && <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: laneColor(lane) }} />}
+              <span className="truncate">{lane || 'Words'}</span>
+            </div>
+          ))}
+        </div>
+
+        <div
+          ref={scrollRef}
+          onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+          className="flex-1 min-w-0 overflow-x-auto custom-scrollbar bg-[var(--secondary)]/40 rounded-md"
+        >
+          <div
+            ref={contentRef}
+            className="relative cursor-text"
+            style={{ width: totalWidth, height: WAVE_HEIGHT + lanes.length * LANE_HEIGHT }}
+            onClick={(e) => onSeek(timeAt(e.clientX))}
+            onPointerMove={moveDrag}
+            onPointerUp={endDrag}
+            onPointerCancel={() => setDrag(null)}
+          >
+            <canvas ref={canvasRef} className="sticky left-0 block" style={{ width: viewWidth, height: WAVE_HEIGHT }} />
+
+            {segments.filter(s => s.end >= viewStart && s.start <= viewEnd).map(segment => (
+              <div
+                key={`${segment.speaker}-${segment.start}`}
+                className="absolute rounded-md pointer-events-none"
+                style={{
+                  left: segment.start * pxPerS,
+                  width: Math.max(2, (segment.end - segment.start) * pxPerS),
+                  top: WAVE_HEIGHT + lanes.indexOf(segment.speaker) * LANE_HEIGHT + 2,
+                  height: LANE_HEIGHT - 4,
+                  backgroundColor: `${laneColor(segment.speaker)}1a`,
+                }}
+              />
+            ))}
+
+            {visibleWords.map(index => {
+              const chunk = chunks[index];
+              const [start, end] = timesOf(index);
+              const color = laneColor(chunk.speaker ?? '');
+              const isActive = currentTime >= start && currentTime <= end;
+              return (
+                <div
+                  key={index}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onPlayRange(start, end);
+                  }}
+                  title={`${wordText(chunk).trim()} [${start.toFixed(2)}s - ${end.toFixed(2)}s]`}
+                  className={`absolute flex items-center rounded border text-[11px] overflow-hidden whitespace-nowrap cursor-pointer ${chunk.unaligned ? 'border-dashed' : ''} ${isActive ? 'text-[var(--background)]' : 'text-[var(--foreground)]'}`}
+                  style={{
+                    left: start * pxPerS,
+                    width: Math.max(2, (end - start) * pxPerS),
+                    top: WAVE_HEIGHT + lanes.indexOf(chunk.speaker ?? '') * LANE_HEIGHT + 5,
+                    height: LANE_HEIGHT - 10,
+                    borderColor: color,
+                    backgroundColor: isActive ? color : `${color}33`,
+                  }}
+                >
+                  <span className="px-1 truncate">{(end - start) * pxPerS > 16 ? wordText(chunk).trim() : ''}</span>
+                  {onEdit && (
+                    <>
+                      <span onPointerDown={(e) => startDrag(e, index, 'start')} onClick={(e) => e.stopPropagation()} className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize hover:bg-[var(--foreground)]/50" />
+                      <span onPointerDown={(e) => startDrag(e, index, 'end')} onClick={(e) => e.stopPropagation()} className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize hover:bg-[var(--foreground)]/50" />
+                    </>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="absolute top-0 bottom-0 w-0.5 bg-red-400 pointer-events-none" style={{ left: currentTime * pxPerS }} />
+          </div>
+        </div>
+      </div>
+      {onEdit && <p className="text-xs text-[var(--muted-foreground)] mt-2">Drag a word's edges to fix its timing; touching words move together. Click a word to hear it.</p>}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { Pencil, Scissors, Merge, Plus, Trash2, Play } from 'lucide-react';
+import type { TranscriptionOutput } from '../types';
+import { wordText, wordStart, wordEnd } from '../lib/transcript';
+import { replaceWord, splitWord, mergeWords, insertWord, deleteWord } from '../lib/transcriptEditor';
+import { listSpeakers, reassignSpeaker, nextSpeakerName } from '../lib/speakers';
+
+interface TranscriptEditorProps {
+  transcription: TranscriptionOutput;
+  currentTime: number;
+  onEdit: (next: TranscriptionOutput) => void;
+  onSeek: (start: number) => void;
+}
+
+export default function TranscriptEditor({ transcription, currentTime, onEdit, onSeek }: TranscriptEditorProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+  // Shift+click extends the selection to a range for speaker reassignment
+  const [rangeEnd, setRangeEnd] = useState<number | null>(null);
+  const [editing, setEditing] = useState<{ index: number, mode: 'replace' | 'insert' } | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (index: number, mode: 'replace' | 'insert') => {
+    setEditing({ index, mode });
+    setDraft(mode === 'replace' ? wordText(transcription.chunks[index]).trim() : '');
+  };
+
+  const commit = () => {
+    if (!editing) return;
+    if (editing.mode === 'replace') {
+      onEdit(replaceWord(transcription, editing.index, draft));
+    } else if (draft.trim()) {
+      onEdit(insertWord(transcription, editing.index, draft));
+      setSelected(editing.index + 1);
+    }
+    setEditing(null);
+  };
+
+  const runOnSelected = (operation: (index: number) => TranscriptionOutput) => {
+    if (selected === null) return;
+    onEdit(operation(selected));
+  };
+
+  const select = (index: number, extend: boolean) => {
+    if (extend && selected !== null) {
+      setRangeEnd(index);
+    } else {
+      setSelected(index);
+      setRangeEnd(null);
+    }
+  };
+
+  const rangeFirst = selected !== null ? Math.min(selected, rangeEnd ?? selected) : -1;
+  const rangeLast = selected !== null ? Math.max(selected, rangeEnd ?? selected) : -1;
+  const isRange = rangeFirst !== rangeLast;
+
+  const speakers = listSpeakers(transcription);
+  const speakerColors = Object.fromEntries(speakers.map(s => [s.name, s.color]));
+
+  const assignSpeaker = (value: string) => {
+    if (selected === null || !value) return;
+    const speaker = value === '__new' ? nextSpeakerName(transcription) : value;
+    onEdit(reassignSpeaker(transcription, rangeFirst, rangeLast, speaker));
+  };
+
+  const selectedChunk = selected !== null ? transcription.chunks[selected] : null;
+  const lastChunk = selected !== null ? transcription.chunks[rangeLast] : null;
+
+  const toolbarButton = 'p-2 bg-[var(--secondary)] text-[var(--foreground)] rounded-lg hover:bg-[var(--border)] transition-colors flex items-center gap-1.5 text-xs font-medium border border-[var(--border)] disabled:opacity-40 disabled:cursor-not-allowed';
+
+  const editInput = (
+    <input
+      autoFocus
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setEditing(null);
+      }}
+      placeholder={editing?.mode === 'insert' ? 'New word(s)' : ''}
+      className="inline-block mx-0.5 px-1.5 py-0.5 rounded-md bg-[var(--secondary)] border border-[var(--foreground)] text-[var(--foreground)] outline-none text-lg"
+      style={{ width: `${Math.max(6, draft.length + 2)}ch` }}
+    />
+  );
+
+  return (
+    <div>
+      <div className="sticky top-16 z-10 flex flex-wrap items-center gap-2 mb-6 p-3 bg-[var(--card)] border border-[var(--border)] rounded-xl">
+        <span className="text-xs text-[var(--muted-foreground)] font-mono mr-2 min-w-[140px]">
+          {selectedChunk && lastChunk
+            ? `[${wordStart(transcription.chunks[rangeFirst]).toFixed(2)}s - ${wordEnd(lastChunk).toFixed(2)}s]${isRange ? ` · ${rangeLast - rangeFirst + 1} words` : ''}`
+            : 'Select a word to edit'}
+        </span>
+        <button disabled={selected === null} onClick={() => selected !== null && onSeek(wordStart(transcription.chunks[selected]))} className={toolbarButton}>
+          <Play size={14} /> Play
+        </button>
+        <button disabled={selected === null || isRange} onClick={() => selected !== null && startEditing(selected, 'replace')} className={toolbarButton}>
+          <Pencil size={14} /> Correct
+        </button>
+        <button disabled={selected === null || isRange} onClick={() => runOnSelected(i => splitWord(transcription, i))} className={toolbarButton}>
+          <Scissors size={14} /> Split
+        </button>
+        <button disabled={selected === null || isRange || selected >= transcription.chunks.length - 1} onClick={() => runOnSelected(i => mergeWords(transcription, i))} className={toolbarButton}>
+          <Merge size={14} /> Merge Next
+        </button>
+        <button onClick={() => startEditing(selected ?? transcription.chunks.length - 1, 'insert')} className={toolbarButton}>
+          <Plus size={14} /> Insert After
+        </button>
+        <button
+          disabled={selected === null || isRange}
+          onClick={() => {
+            runOnSelected(i => deleteWord(transcription, i));
+            setSelected(null);
+          }}
+          className={`${toolbarButton} hover:text-red-400`}
+        >
+          <Trash2 size={14} /> Delete
+        </button>
+        <select
+          value=""
+          disabled={selected === null}
+          onChange={(e) => assignSpeaker(e.target.value)}
+          title="Shift+click a second word to select a range"
+          className={`${toolbarButton} outline-none`}
+        >
+          <option value="" className="bg-[var(--card)]">Assign speaker…</option>
+          {speakers.map(speaker => (
+            <option key={speaker.name} value={speaker.name} className="bg-[var(--card)]">{speaker.name}</option>
+          ))}
+          <option value="__new" className="bg-[var(--card)]">New speaker</option>
+        </select>
+      </div>
+
+      <div className="text-lg leading-loose font-sans text-[var(--foreground)]">
+        {transcription.chunks.map((chunk, index) => {
+          const start = wordStart(chunk);
+          const end = wordEnd(chunk);
+          const isActive = currentTime >= start && currentTime <= end;
+          const prevSpeaker = index > 0 ? transcription.chunks[index - 1].speaker : null;
+          const showSpeaker = chunk.speaker && chunk.speaker !== prevSpeaker;
+
+          return (
+            <React.Fragment key={index}>
+              {showSpeaker && (
+                <div className="mt-6 mb-2 text-sm font-bold uppercase tracking-wider flex items-center gap-2" style={{ color: speakerColors[chunk.speaker!] }}>
+                  <div className="w-2 h-2 rounded-full" style={{ backgroundColor: speakerColors[chunk.speaker!] }}></div>
+                  {chunk.speaker}
+                </div>
+              )}
+              {editing?.mode === 'replace' && editing.index === index ? editInput : (
+                <span
+                  onClick={(e) => select(index, e.shiftKey)}
+                  onDoubleClick={() => startEditing(index, 'replace')}
+                  className={`
+                    inline-block px-1.5 py-0.5 mx-0.5 rounded-md cursor-text transition-all duration-150 border
+                    ${index >= rangeFirst && index <= rangeLast ? 'border-[var(--foreground)] bg-[var(--secondary)]' : 'border-transparent hover:border-[var(--border)]'}
+                    ${isActive ? 'underline underline-offset-4' : ''}
+                  `}
+                  title={`[${start.toFixed(2)}s - ${end.toFixed(2)}s]`}
+                >
+                  {wordText(chunk)}
+                </span>
+              )}
+              {editing?.mode === 'insert' && editing.index === index && editInput}
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Captions, CaptionsOff, Maximize, Minimize } from 'lucide-react';
+import { SubtitleCue, cuesToVTT } from '../lib/subtitles';
+import { CaptionStyle, CAPTION_SIZES, CAPTION_BACKGROUNDS, DEFAULT_CAPTION_STYLE, cueIndexAt, cueLineWords } from '../lib/captions';
+import { wordStart } from '../lib/transcript';
+
+interface VideoPreviewProps {
+  src: string;
+  mediaRef: React.RefObject<HTMLVideoElement | null>;
+  // Playback event handlers, shared with the audio element used for audio-only files
+  mediaEvents: React.VideoHTMLAttributes<HTMLVideoElement>;
+  cues: SubtitleCue[];
+  speakerLabels: boolean;
+  speakerColors: Record<string, string>;
+  language?: string;
+  currentTime: number;
+  style: CaptionStyle;
+  onStyleChange: (style: CaptionStyle) => void;
+  onTogglePlay: () => void;
+}
+
+// The video with a caption track rebuilt from the current cues on every edit. The track is the
+// same WebVTT the exporter writes; by default it stays hidden and a styled overlay draws it.
+export default function VideoPreview({
+  src, mediaRef, mediaEvents, cues, speakerLabels, speakerColors, language, currentTime, style, onStyleChange, onTogglePlay,
+}: VideoPreviewProps) {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const trackRef = useRef<HTMLTrackElement>(null);
+  const [fullscreen, setFullscreen] = useState(false);
+
+  const vttUrl = useMemo(
+    () => URL.createObjectURL(new Blob([cuesToVTT(cues, speakerLabels)], { type: 'text/vtt' })),
+    [cues, speakerLabels]
+  );
+  useEffect(() => () => URL.revokeObjectURL(vttUrl), [vttUrl]);
+
+  const placeNativeCues = () => {
+    const list = trackRef.current?.track.cues;
+    if (!list) return;
+    for (let i = 0; i < list.length; i++) {
+      (list[i] as VTTCue).line = style.position === 'top' ? 0 : 'auto';
+    }
+  };
+
+  useEffect(() => {
+    const track = trackRef.current?.track;
+    if (track) track.mode = style.visible && style.native ? 'showing' : 'hidden';
+    placeNativeCues();
+  }, [vttUrl, style.visible, style.native, style.position]);
+
+  useEffect(() => {
+    const onChange = () => setFullscreen(document.fullscreenElement === frameRef.current);
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else frameRef.current?.requestFullscreen();
+  };
+
+  const update = <K extends keyof CaptionStyle>(key: K, value: CaptionStyle[K]) => {
+    onStyleChange({ ...style, [key]: value });
+  };
+
+  const index = cueIndexAt(cues, currentTime);
+  const cue = index >= 0 ? cues[index] : null;
+  const showSpeaker = speakerLabels && cue?.speaker && cue.speaker !== cues[index - 1]?.speaker;
+  const boxColor = `rgba(0, 0, 0, ${style.background})`;
+  const select = 'bg-[var(--secondary)] border border-[var(--border)] rounded-md px-2 py-1 text-sm text-[var(--foreground)] outline-none cursor-pointer';
+
+  return (
+    <div className="bg-[var(--card)] border border-[var(--border)] rounded-[var(--radius)] overflow-hidden shadow-sm">
+      {/* Browser-rendered captions pick up the same colours */}
+      <style>{`video[data-caption-preview]::cue { color: ${style.color}; background-color: ${boxColor}; font-size: ${Math.round(style.size / DEFAULT_CAPTION_STYLE.size * 100)}%; }`}</style>
+
+      <div ref={frameRef} className="relative bg-black flex items-center justify-center group" style={{ containerType: 'inline-size' }}>
+        <video
+          ref={mediaRef}
+          src={src}
+          data-caption-preview
+          playsInline
+          onClick={onTogglePlay}
+          {...mediaEvents}
+          className={`w-full object-contain cursor-pointer ${fullscreen ? 'h-full' : 'max-h-[60vh]'}`}
+        >
+          <track
+            key={vttUrl}
+            ref={trackRef}
+            kind="captions"
+            label="Transcript"
+            srcLang={language}
+            src={vttUrl}
+            onLoad={placeNativeCues}
+          />
+        </video>
+
+        {cue && style.visible && !style.native && (
+          <div
+            className="absolute inset-x-0 flex justify-center px-[5%] pointer-events-none"
+            style={{ [style.position]: '6%' }}
+          >
+            <div
+              className="text-center font-medium leading-snug rounded-[0.2em] px-[0.4em] py-[0.1em]"
+              style={{
+                fontSize: `${style.size}cqw`,
+                color: style.color,
+                backgroundColor: boxColor,
+                textShadow: style.background === 0 ? '0 0 0.15em #000, 0 0 0.15em #000, 0 0 0.15em #000' : undefined,
+              }}
+            >
+              {cueLineWords(cue).map((line, i) => (
+                <div key={i}>
+                  {i === 0 && showSpeaker && (
+                    <span style={{ color: speakerColors[cue.speaker!] }}>{cue.speaker}: </span>
+                  )}
+                  {style.karaoke && line.words.length > 0
+                    ? line.words.map((word, j) => (
+                      <React.Fragment key={j}>
+                        {j > 0 && ' '}
+                        <span style={wordStart(word) <= currentTime ? { color: style.highlight } : undefined}>
+                          {line.text.split(' ')[j]}
+                        </span>
+                      </React.Fragment>
+                    ))
+                    : line.text}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <button
+          onClick={toggleFullscreen}
+          title={fullscreen ? 'Exit fullscreen' : 'Fullscreen with captions'}
+          className="absolute top-3 right-3 p-2 rounded-lg bg-black/50 text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+        >
+          {fullscreen ? <Minimize size={16} /> : <Maximize size={16} />}
+        </button>
+      </div>
+
+      <div className="px-5 py-3 flex flex-wrap items-center gap-x-5 gap-y-3 text-sm text-[var(--muted-foreground)]">
+        <button
+          onClick={() => update('visible', !style.visible)}
+          className={`p-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium border border-[var(--border)] ${style.visible ? 'bg-[var(--foreground)] text-[var(--background)]' : 'bg-[var(--secondary)] text-[var(--foreground)] hover:bg-[var(--border)]'}`}
+        >
+          {style.visible ? <Captions size={16} /> : <CaptionsOff size={16} />} Captions
+        </button>
+        <select value={style.size} onChange={(e) => update('size', Number(e.target.value))} title="Caption size" className={select}>
+          {CAPTION_SIZES.map(({ label, value }) => (
+            <option key={value} value={value} className="bg-[var(--card)]">{label}</option>
+          ))}
+        </select>
+        <select value={style.background} onChange={(e) => update('background', Number(e.target.value))} title="Caption background" className={select}>
+          {CAPTION_BACKGROUNDS.map(({ label, value }) => (
+            <option key={value} value={value} className="bg-[var(--card)]">{label}</option>
+          ))}
+        </select>
+        <select value={style.position} onChange={(e) => update('position', e.target.value as CaptionStyle['position'])} title="Caption position" className={select}>
+          <option value="bottom" className="bg-[var(--card)]">Bottom</option>
+          <option value="top" className="bg-[var(--card)]">Top</option>
+        </select>
+        <label className="flex items-center gap-2 cursor-pointer">
+          Text
+          <input type="color" value={style.color} onChange={(e) => update('color', e.target.value)} className="w-7 h-7 bg-transparent cursor-pointer" />
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer" title="Highlight each word as it is spoken">
+          <input type="checkbox" checked={style.karaoke} disabled={style.native} onChange={(e) => update('karaoke', e.target.checked)} />
+          Karaoke
+          <input type="color" value={style.highlight} disabled={style.native || !style.karaoke} onChange={(e) => update('highlight', e.target.value)} className="w-7 h-7 bg-transparent cursor-pointer disabled:opacity-40" />
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer" title="Show the WebVTT track the way the browser's own player renders it">
+          <input type="checkbox" checked={style.native} onChange={(e) => update('native', e.target.checked)} />
+          Browser rendering
+        </label>
+      </div>
+    </div>
+  );
+}
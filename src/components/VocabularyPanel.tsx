@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { X, BookA, Plus, Trash2, Regex, CaseSensitive, Wand2 } from 'lucide-react';
+import { GlossaryRule, createRule, ruleError } from '../lib/glossary';
+
+interface VocabularyPanelProps {
+  vocabulary: string;
+  onVocabularyChange: (vocabulary: string) => void;
+  rules: GlossaryRule[];
+  onRulesChange: (rules: GlossaryRule[]) => void;
+  // Runs the glossary over the open transcript and returns the number of replacements
+  onApply?: () => number;
+  onClose: () => void;
+}
+
+export default function VocabularyPanel({ vocabulary, onVocabularyChange, rules, onRulesChange, onApply, onClose }: VocabularyPanelProps) {
+  const [applied, setApplied] = useState<number | null>(null);
+
+  const updateRule = (id: string, changes: Partial<GlossaryRule>) => {
+    onRulesChange(rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+    setApplied(null);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.95, opacity: 0, y: 20 }}
+        transition={{ duration: 0.3, ease: "easeOut" }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-[var(--card)] border border-[var(--border)] rounded-[var(--radius)] p-8 max-w-2xl w-full max-h-[90vh] overflow-y-auto shadow-2xl relative"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 text-[var(--muted-foreground)] hover:text-[var(--foreground)] bg-[var(--secondary)] rounded-full transition-colors"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="w-12 h-12 bg-[var(--secondary)] text-[var(--foreground)] rounded-xl flex items-center justify-center mb-6 border border-[var(--border)]">
+          <BookA size={24} />
+        </div>
+        <h3 className="text-xl font-semibold tracking-tight text-[var(--foreground)] mb-2">Vocabulary & Glossary</h3>
+        <p className="text-sm text-[var(--muted-foreground)] mb-6">
+          The vocabulary is given to Whisper as if it had just heard it, which nudges the spelling of names and jargon.
+          Glossary rules then fix whatever still comes out wrong.
+        </p>
+
+        <label className="flex flex-col gap-2 mb-8">
+          <span className="text-xs font-medium text-[var(--muted-foreground)] uppercase tracking-wider">Vocabulary (this project)</span>
+          <textarea
+            value={vocabulary}
+            onChange={(e) => onVocabularyChange(e.target.value)}
+            rows={3}
+            placeholder="e.g. Kubernetes, Dr. Okonkwo, WebGPU, Transformers.js"
+            className="bg-[var(--secondary)] border border-[var(--border)] rounded-lg px-3 py-2 text-sm text-[var(--foreground)] outline-none focus:border-[var(--foreground)] resize-y"
+          />
+          <span className="text-xs text-[var(--muted-foreground)]">Used by the next transcription. Keep it short: only the last ~200 tokens reach the model.</span>
+        </label>
+
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-xs font-medium text-[var(--muted-foreground)] uppercase tracking-wider">Glossary (all projects)</span>
+          <button
+            onClick={() => onRulesChange([...rules, createRule()])}
+            className="flex items-center gap-1.5 text-xs font-medium text-[var(--muted-foreground)] hover:text-[var(--foreground)] transition-colors"
+          >
+            <Plus size={14} /> Add rule
+          </button>
+        </div>
+
+        {rules.length === 0 ? (
+          <p className="text-sm text-[var(--muted-foreground)] text-center py-6 border border-dashed border-[var(--border)] rounded-lg">
+            No rules yet. A rule like "open ai" → "OpenAI" runs after every transcription.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map(rule => {
+              const error = rule.find.trim() ? ruleError(rule) : null;
+              return (
+                <div key={rule.id} className={`p-2 rounded-lg border border-[var(--border)] bg-[var(--secondary)]/40 ${rule.enabled ? '' : 'opacity-50'}`}>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                      title="Enabled"
+                    />
+                    <input
+                      value={rule.find}
+                      onChange={(e) => updateRule(rule.id, { find: e.target.value })}
+                      placeholder="Find"
+                      className={`flex-1 min-w-0 bg-[var(--card)] border rounded-md px-2 py-1 text-sm font-mono text-[var(--foreground)] outline-none ${error ? 'border-red-400' : 'border-[var(--border)] focus:border-[var(--foreground)]'}`}
+                    />
+                    <span className="text-[var(--muted-foreground)]">→</span>
+                    <input
+                      value={rule.replace}
+                      onChange={(e) => updateRule(rule.id, { replace: e.target.value })}
+                      placeholder="Replace"
+                      className="flex-1 min-w-0 bg-[var(--card)] border border-[var(--border)] rounded-md px-2 py-1 text-sm font-mono text-[var(--foreground)] outline-none focus:border-[var(--foreground)]"
+                    />
+                    <button
+                      onClick={() => updateRule(rule.id, { regex: !rule.regex })}
+                      title="Regular expression ($1 inserts a group)"
+                      className={`p-1 rounded-md transition-colors ${rule.regex ? 'bg-[var(--foreground)] text-[var(--background)]' : 'text-[var(--muted-foreground)] hover:text-[var(--foreground)]'}`}
+                    >
+                      <Regex size={16} />
+                    </button>
+                    <button
+                      onClick={() => updateRule(rule.id, { preserveCase: !rule.preserveCase })}
+                      title="Keep the matched text's capitalization"
+                      className={`p-1 rounded-md transition-colors ${rule.preserveCase ? 'bg-[var(--foreground)] text-[var(--background)]' : 'text-[var(--muted-foreground)] hover:text-[var(--foreground)]'}`}
+                    >
+                      <CaseSensitive size={16} />
+                    </button>
+                    <button
+                      onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))}
+                      title="Remove rule"
+                      className="p-1 text-[var(--muted-foreground)] hover:text-red-400 transition-colors"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                  {error && <p className="text-xs text-red-400 mt-1 ml-6">{error}</p>}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {onApply && (
+          <div className="flex items-center justify-end gap-3 mt-6">
+            {applied !== null && (
+              <span className="text-xs font-mono text-[var(--muted-foreground)]">
+                {applied === 0 ? 'Nothing to replace' : `${applied} ${applied === 1 ? 'replacement' : 'replacements'}`}
+              </span>
+            )}
+            <button
+              onClick={() => setApplied(onApply())}
+              disabled={!rules.some(rule => rule.enabled && rule.find.trim())}
+              className="flex items-center gap-2 px-4 py-2 bg-[var(--foreground)] text-[var(--background)] rounded-lg text-sm font-medium disabled:opacity-40"
+            >
+              <Wand2 size={16} /> Apply to transcript
+            </button>
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import type { TranscriptionOutput } from '../types';
+import { startStreamingTranscription, TranscriptionSettings } from '../lib/transcriptionStream';
+import { createProject } from '../lib/projectStore';
+
+export type BatchStatus = 'queued' | 'decoding' | 'transcribing' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchStatus;
+  processed: number;
+  total: number;
+  transcription?: TranscriptionOutput;
+  projectId?: string;
+  error?: string;
+  // Non-fatal notice from the worker, e.g. pause-based speaker labels
+  warning?: string;
+}
+
+interface BatchQueueOptions {
+  workerRef: { current: Worker | null };
+  restartWorker: () => void;
+  settings: TranscriptionSettings;
+}
+
+let nextId = 0;
+
+// Sequential transcription queue sharing the app's worker. Replies are routed by `jobId`.
+export function useBatchQueue({ workerRef, restartWorker, settings }: BatchQueueOptions) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const itemsRef = useRef<BatchItem[]>([]);
+  const settingsRef = useRef(settings);
+  // Cancels the item being started or transcribed, so a run stopped mid-setup can't resurface
+  const runRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  }, []);
+
+  const addFiles = useCallback((files: File[]) => {
+    const added = files
+      .filter(file => file.type.startsWith('audio/') || file.type.startsWith('video/'))
+      .map((file): BatchItem => ({ id: `job-${++nextId}`, file, status: 'queued', processed: 0, total: 0 }));
+    setItems(prev => [...prev, ...added]);
+    return added.length;
+  }, []);
+
+  const removeItem = useCallback((id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id || item.status === 'decoding' || item.status === 'transcribing'));
+  }, []);
+
+  const moveItem = useCallback((id: string, direction: -1 | 1) => {
+    setItems(prev => {
+      const index = prev.findIndex(item => item.id === id);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const retryItem = useCallback((id: string) => {
+    updateItem(id, { status: 'queued', error: undefined, warning: undefined, processed: 0 });
+  }, [updateItem]);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => item.status !== 'done'));
+  }, []);
+
+  const stop = useCallback(() => {
+    setIsRunning(false);
+    runRef.current?.abort();
+    runRef.current = null;
+    const active = itemsRef.current.find(item => item.status === 'decoding' || item.status === 'transcribing');
+    if (active) {
+      restartWorker();
+      updateItem(active.id, { status: 'queued', processed: 0 });
+    }
+  }, [restartWorker, updateItem]);
+
+  const processItem = useCallback(async (item: BatchItem) => {
+    const run = new AbortController();
+    runRef.current = run;
+    updateItem(item.id, { status: 'decoding', error: undefined });
+    try {
+      if (!workerRef.current) throw new Error('Worker is not ready.');
+      const { duration } = await startStreamingTranscription(workerRef.current, item.file, settingsRef.current, item.id, run.signal);
+      if (run.signal.aborted) return;
+      updateItem(item.id, { status: 'transcribing', processed: 0, total: duration });
+    } catch (err: any) {
+      // stop() has already put the item back in the queue
+      if (run.signal.aborted) return;
+      updateItem(item.id, { status: 'failed', error: `Failed to decode media: ${err.message}` });
+    }
+  }, [updateItem, workerRef]);
+
+  // Start the next queued item whenever the queue is running and idle
+  useEffect(() => {
+    if (!isRunning) return;
+    const busy = items.some(item => item.status === 'decoding' || item.status === 'transcribing');
+    if (busy) return;
+    const next = items.find(item => item.status === 'queued');
+    if (next) processItem(next);
+    else setIsRunning(false);
+  }, [items, isRunning, processItem]);
+
+  // Returns true when the message belonged to a batch job
+  const handleWorkerMessage = useCallback((data: any): boolean => {
+    if (!data.jobId) return false;
+    const item = itemsRef.current.find(i => i.id === data.jobId);
+    if (!item) return true;
+
+    if (data.status === 'partial') {
+      updateItem(item.id, { processed: data.processed, total: data.total });
+    } else if (data.status === 'complete') {
+      const transcription: TranscriptionOutput = data.output;
+      const { model, language, device, vocabulary } = settingsRef.current;
+      updateItem(item.id, { status: 'done', transcription, processed: item.total });
+      createProject(item.file, transcription, { model, language, device, vocabulary })
+        .then(project => updateItem(item.id, { projectId: project.id }))
+        .catch(err => console.warn('Could not save batch item to the library', err));
+    } else if (data.status === 'warning') {
+      updateItem(item.id, { warning: data.message });
+    } else if (data.status === 'error') {
+      updateItem(item.id, { status: 'failed', error: data.error });
+    }
+    return true;
+  }, [updateItem]);
+
+  return {
+    items,
+    isRunning,
+    addFiles,
+    removeItem,
+    moveItem,
+    retryItem,
+    clearFinished,
+    start: () => setIsRunning(true),
+    stop,
+    handleWorkerMessage,
+  };
+}
@@ -0,0 +1,38 @@
+import { useState, useCallback } from 'react';
+
+const HISTORY_LIMIT = 200;
+
+// Undo/redo stacks layered over an existing piece of state. Loading fresh data should call `reset`.
+export function useEditHistory<T>(value: T | null, setValue: (value: T) => void) {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+
+  const apply = useCallback((next: T) => {
+    if (value !== null) {
+      setPast(prev => [...prev, value].slice(-HISTORY_LIMIT));
+    }
+    setFuture([]);
+    setValue(next);
+  }, [value, setValue]);
+
+  const undo = useCallback(() => {
+    if (past.length === 0 || value === null) return;
+    setPast(past.slice(0, -1));
+    setFuture([value, ...future]);
+    setValue(past[past.length - 1]);
+  }, [past, future, value, setValue]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0 || value === null) return;
+    setPast([...past, value]);
+    setFuture(future.slice(1));
+    setValue(future[0]);
+  }, [past, future, value, setValue]);
+
+  const reset = useCallback(() => {
+    setPast([]);
+    setFuture([]);
+  }, []);
+
+  return { apply, undo, redo, reset, canUndo: past.length > 0, canRedo: future.length > 0 };
+}
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+import { ShortcutAction, ShortcutMap, keyCombo, firesInTextField } from '../lib/playback';
+
+// Routes key presses bound in `shortcuts` to `handlers`. Handlers are read through a ref, so
+// they can close over fresh state without re-registering the listener.
+export function useShortcuts(shortcuts: ShortcutMap, handlers: Partial<Record<ShortcutAction, () => void>>, enabled = true) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const actions = new Map<string, ShortcutAction>();
+    for (const [action, combo] of Object.entries(shortcuts)) {
+      if (combo) actions.set(combo, action as ShortcutAction);
+    }
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      const combo = keyCombo(e);
+      const action = combo ? actions.get(combo) : undefined;
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+      const target = e.target as HTMLElement | null;
+      const inTextField = target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || target?.tagName === 'SELECT' || target?.isContentEditable;
+      if (inTextField && !firesInTextField(combo!)) return;
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [shortcuts, enabled]);
+}
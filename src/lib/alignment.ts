@@ -0,0 +1,161 @@
+import type { WordTimestamp } from '../types';
+import { wordText, wordStart, wordEnd } from './transcript';
+
+// Recognised words at least this similar to a script word count as the same word
+const MATCH_SIMILARITY = 0.8;
+// Cap on the alignment table (cells); long inputs are aligned within a band around the diagonal
+const MAX_CELLS = 5_000_000;
+// How far before the first unplaced script word a window is matched from: more than a 5 s stride holds
+const LOOKBACK_WORDS = 40;
+// Script words matched beyond the window's own word count, for passages Whisper dropped
+const LOOKAHEAD_WORDS = 20;
+
+// Alignment moves, stored per cell for the traceback
+const DIAGONAL = 0;
+const SKIP_REFERENCE = 1;
+const SKIP_RECOGNISED = 2;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  // Too different in length to be worth the edit distance
+  if (Math.abs(a.length - b.length) > Math.max(a.length, b.length) / 2) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row.push(Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)));
+    }
+    previous = row;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+export function splitReference(reference: string): string[] {
+  return reference.split(/\s+/).filter(Boolean);
+}
+
+// Edit-distance alignment of script words against recognised words. Returns, for every script
+// word, the index of the recognised word it lines up with, or -1 when it has no counterpart.
+function alignSequences(reference: string[], recognised: string[]): number[] {
+  const n = reference.length;
+  const m = recognised.length;
+  // The band follows the line from (0, 0) to (n, m), so it only has to absorb local drift
+  const band = Math.max(50, Math.floor(MAX_CELLS / (n + 1) / 2));
+  const lo = (i: number) => Math.max(0, Math.round(i * m / Math.max(n, 1)) - band);
+  const hi = (i: number) => Math.min(m, Math.round(i * m / Math.max(n, 1)) + band);
+  const width = Math.min(m, 2 * band) + 1;
+
+  const moves = new Uint8Array((n + 1) * width);
+  let previous = new Float64Array(width);
+  for (let j = lo(0); j <= hi(0); j++) {
+    previous[j - lo(0)] = j;
+    moves[j - lo(0)] = SKIP_RECOGNISED;
+  }
+
+  for (let i = 1; i <= n; i++) {
+    const row = new Float64Array(width).fill(Infinity);
+    const rowLo = lo(i);
+    const prevLo = lo(i - 1);
+    const prevHi = hi(i - 1);
+    const cost = (j: number) => j >= prevLo && j <= prevHi ? previous[j - prevLo] : Infinity;
+    for (let j = rowLo; j <= hi(i); j++) {
+      let best = cost(j) + 1;
+      let move = SKIP_REFERENCE;
+      if (j > 0) {
+        // Mismatches still pair up, but near-misses ("tets" for "test") are cheaper than unrelated words
+        const score = similarity(reference[i - 1], recognised[j - 1]);
+        const diagonal = cost(j - 1) + (score >= MATCH_SIMILARITY ? 0 : 1 - score / 2);
+        if (diagonal <= best) {
+          best = diagonal;
+          move = DIAGONAL;
+        }
+        if (j - 1 >= rowLo && row[j - 1 - rowLo] + 1 < best) {
+          best = row[j - 1 - rowLo] + 1;
+          move = SKIP_RECOGNISED;
+        }
+      }
+      row[j - rowLo] = best;
+      moves[i * width + j - rowLo] = move;
+    }
+    previous = row;
+  }
+
+  const pairs = new Array<number>(n).fill(-1);
+  let i = n;
+  let j = m;
+  while (i > 0) {
+    const move = moves[i * width + j - lo(i)];
+    if (move === DIAGONAL) pairs[--i] = --j;
+    else if (move === SKIP_REFERENCE) i--;
+    else j--;
+  }
+  return pairs;
+}
+
+export interface ScriptMatch {
+  // Range of script words the window's speech covers
+  first: number;
+  last: number;
+  // Script words the free transcription heard; the rest of the range it only skipped over
+  matched: Set<number>;
+  // Confidence of recognised words that are exactly the script word at that index
+  confidence: Map<number, number>;
+}
+
+// Finds the stretch of the script one window's free transcription covers, so just that stretch is
+// force-aligned against the window's audio. `from` is the first script word no earlier window has
+// placed; matching starts a little before it to take in the words of the window's leading stride.
+// Only confident matches mark the range. Returns null when nothing in the window matches the script.
+export function matchScript(script: string[], from: number, recognised: WordTimestamp[]): ScriptMatch | null {
+  const start = Math.max(0, from - LOOKBACK_WORDS);
+  const end = Math.min(script.length, from + recognised.length * 2 + LOOKAHEAD_WORDS);
+  const heard = recognised.map(chunk => normalize(wordText(chunk)));
+  const pairs = alignSequences(script.slice(start, end).map(normalize), heard);
+
+  let first = -1;
+  let last = -1;
+  const matched = new Set<number>();
+  const confidence = new Map<number, number>();
+  pairs.forEach((j, i) => {
+    if (j < 0 || similarity(normalize(script[start + i]), heard[j]) < MATCH_SIMILARITY) return;
+    if (first < 0) first = start + i;
+    last = start + i;
+    matched.add(start + i);
+    const score = recognised[j].confidence;
+    if (score !== undefined && normalize(script[start + i]) === heard[j]) confidence.set(start + i, score);
+  });
+  return first < 0 ? null : { first, last, matched, confidence };
+}
+
+// Times the script words Whisper never heard (flagged `unaligned`) by spreading each run of them over the gap between its aligned neighbours; `duration` bounds a trailing run.
+export function placeUnaligned(words: WordTimestamp[], duration: number): WordTimestamp[] {
+  const aligned = [...words];
+  for (let i = 0; i < aligned.length; i++) {
+    if (!aligned[i].unaligned) continue;
+    let last = i;
+    while (last + 1 < aligned.length && aligned[last + 1].unaligned) last++;
+    const before = i > 0 ? aligned[i - 1] : undefined;
+    const after = last + 1 < aligned.length ? aligned[last + 1] : undefined;
+    const start = before ? wordEnd(before) : 0;
+    const end = Math.max(start, after ? wordStart(after) : Math.max(duration, start));
+
+    // Share the gap by word length, like words typed into the editor
+    const run = aligned.slice(i, last + 1);
+    const totalChars = run.reduce((sum, word) => sum + wordText(word).length, 0) || 1;
+    let cursor = start;
+    run.forEach((word, k) => {
+      const length = (end - start) * (wordText(word).length / totalChars);
+      aligned[i + k] = {
+        ...word,
+        timestamp: [cursor, cursor + length],
+        ...((before ?? after)?.speaker ? { speaker: (before ?? after)!.speaker } : {})
+      };
+      cursor += length;
+    });
+    i = last;
+  }
+  return aligned;
+}
@@ -0,0 +1,414 @@
+import { EncodedTrack, openTrack } from './demux';
+
+export const SAMPLING_RATE = 16000;
+
+// Roughly one minute of audio per decoded window: enough for two 30 s Whisper chunks, small enough to stay bounded
+const WINDOW_S = 60;
+const MP3_SLICE_BYTES = 1024 * 1024;
+const HEADER_PROBE_BYTES = 1024 * 1024;
+
+export interface AudioWindow {
+  audio: Float32Array;
+  isLast: boolean;
+}
+
+// Pull-based access to a media file's audio, decoded and resampled to 16 kHz mono one window at a time
+export interface AudioSource {
+  duration: number;
+  next: () => Promise<AudioWindow>;
+  // Releases the decoder and anything buffered when a caller stops early. Harmless after the last window.
+  close: () => void;
+}
+
+function downmix(buffer: AudioBuffer): Float32Array {
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+// An OfflineAudioContext decodes straight to the target sample rate and holds no audio hardware
+async function decodeBytes(bytes: ArrayBuffer): Promise<Float32Array> {
+  const context = new OfflineAudioContext(1, 1, SAMPLING_RATE);
+  return downmix(await context.decodeAudioData(bytes));
+}
+
+// Decode audio/video file to Float32Array
+export async function decodeAudio(file: File): Promise<Float32Array> {
+  return decodeBytes(await file.arrayBuffer());
+}
+
+// Reads the duration from the media metadata without decoding anything
+export function getMediaDuration(file: File): Promise<number> {
+  return new Promise((resolve) => {
+    const media = document.createElement(file.type.startsWith('video/') ? 'video' : 'audio');
+    const url = URL.createObjectURL(file);
+    const done = (duration: number) => {
+      URL.revokeObjectURL(url);
+      resolve(isFinite(duration) ? duration : 0);
+    };
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => done(media.duration);
+    media.onerror = () => done(0);
+    media.src = url;
+  });
+}
+
+interface WavFormat {
+  header: Uint8Array;
+  dataStart: number;
+  dataEnd: number;
+  blockAlign: number;
+  byteRate: number;
+}
+
+function readString(view: DataView, offset: number, length: number): string {
+  let result = '';
+  for (let i = 0; i < length; i++) result += String.fromCharCode(view.getUint8(offset + i));
+  return result;
+}
+
+function parseWav(bytes: ArrayBuffer, fileSize: number): WavFormat | null {
+  const view = new DataView(bytes);
+  if (view.byteLength < 12 || readString(view, 0, 4) !== 'RIFF' || readString(view, 8, 4) !== 'WAVE') return null;
+
+  let offset = 12;
+  let fmt: { offset: number, size: number } | null = null;
+  while (offset + 8 <= view.byteLength) {
+    const id = readString(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ') fmt = { offset, size };
+    if (id === 'data' && fmt) {
+      const blockAlign = view.getUint16(fmt.offset + 8 + 12, true);
+      const byteRate = view.getUint32(fmt.offset + 8 + 8, true);
+      // Keep the original fmt chunk so every slice can be re-wrapped as a standalone WAV file
+      const header = new Uint8Array(12 + 8 + fmt.size + 8);
+      header.set(new Uint8Array(bytes, 0, 12), 0);
+      header.set(new Uint8Array(bytes, fmt.offset, 8 + fmt.size), 12);
+      header.set(new Uint8Array(bytes, offset, 8), 20 + fmt.size);
+      const dataStart = offset + 8;
+      // Streaming writers often leave the data size at 0 or 0xFFFFFFFF
+      const dataEnd = size > 0 && size !== 0xffffffff ? Math.min(fileSize, dataStart + size) : fileSize;
+      return { header, dataStart, dataEnd, blockAlign, byteRate };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+function wrapWavSlice(format: WavFormat, data: ArrayBuffer): ArrayBuffer {
+  const out = new Uint8Array(format.header.length + data.byteLength);
+  out.set(format.header, 0);
+  out.set(new Uint8Array(data), format.header.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(4, out.length - 8, true);
+  view.setUint32(format.header.length - 4, data.byteLength, true);
+  return out.buffer;
+}
+
+function wavSource(file: File, format: WavFormat): AudioSource {
+  const sliceBytes = Math.max(format.blockAlign, Math.floor((format.byteRate * WINDOW_S) / format.blockAlign) * format.blockAlign);
+  let position = format.dataStart;
+  return {
+    duration: (format.dataEnd - format.dataStart) / format.byteRate,
+    next: async () => {
+      const end = Math.min(format.dataEnd, position + sliceBytes);
+      const data = await file.slice(position, end).arrayBuffer();
+      position = end;
+      return { audio: await decodeBytes(wrapWavSlice(format, data)), isLast: position >= format.dataEnd };
+    },
+    // Each window is its own short decode, so there is nothing to release
+    close: () => {},
+  };
+}
+
+// Windowed-sinc rate conversion that keeps its input history between calls, so audio fed in pieces
+// comes out exactly as if it had been converted in one go: no clicks or shifts where pieces meet
+const RESAMPLER_ZERO_CROSSINGS = 8;
+const RESAMPLER_MAX_PHASES = 4096;
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+export class Resampler {
+  from: number;
+  to: number;
+  // One row of taps for each fractional position an output sample can fall on between inputs
+  kernel: Float32Array[] = [];
+  halfTaps = 0;
+  phases = 1;
+  history = new Float32Array(0);
+  // Absolute index of history[0] among all input samples
+  historyStart = 0;
+  received = 0;
+  produced = 0;
+
+  constructor(from: number, to: number) {
+    this.from = Math.round(from);
+    this.to = to;
+    if (this.from === to) return;
+    // Low-pass just under the lower Nyquist frequency, measured in input samples
+    const cutoff = 0.9 * Math.min(1, to / this.from);
+    const width = RESAMPLER_ZERO_CROSSINGS / cutoff;
+    this.halfTaps = Math.ceil(width);
+    this.phases = Math.min(RESAMPLER_MAX_PHASES, to / gcd(this.from, to));
+    for (let p = 0; p < this.phases; p++) {
+      const row = new Float32Array(this.halfTaps * 2);
+      let sum = 0;
+      for (let i = 0; i < row.length; i++) {
+        const x = i - this.halfTaps + 1 - p / this.phases;
+        if (Math.abs(x) >= width) continue;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * cutoff * x) / (Math.PI * cutoff * x);
+        const blackman = 0.42 + 0.5 * Math.cos(Math.PI * x / width) + 0.08 * Math.cos(2 * Math.PI * x / width);
+        row[i] = sinc * blackman;
+        sum += row[i];
+      }
+      for (let i = 0; i < row.length; i++) row[i] /= sum;
+      this.kernel.push(row);
+    }
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.from === this.to) return input;
+    const merged = new Float32Array(this.history.length + input.length);
+    merged.set(this.history);
+    merged.set(input, this.history.length);
+    this.history = merged;
+    this.received += input.length;
+    return this.drain(false);
+  }
+
+  // Whatever is left once the input has ended, as if it were followed by silence
+  flush(): Float32Array {
+    return this.from === this.to ? new Float32Array(0) : this.drain(true);
+  }
+
+  drain(final: boolean): Float32Array {
+    const { from, to, halfTaps, phases, history, historyStart, received } = this;
+    const total = final ? Math.ceil(received * to / from) : Math.max(0, Math.floor((received - halfTaps) * to / from));
+    const out = new Float32Array(Math.max(0, total - this.produced));
+    for (let n = 0; n < out.length; n++) {
+      const position = (this.produced + n) * from;
+      let base = Math.floor(position / to);
+      let phase = Math.round(((position % to) / to) * phases);
+      if (phase === phases) {
+        phase = 0;
+        base++;
+      }
+      const row = this.kernel[phase];
+      const first = base - halfTaps + 1 - historyStart;
+      let sum = 0;
+      for (let i = Math.max(0, -first); i < row.length && first + i < history.length; i++) sum += row[i] * history[first + i];
+      out[n] = sum;
+    }
+    this.produced += out.length;
+    // Keep only the inputs the next output still reaches back to
+    const keepFrom = Math.floor(this.produced * from / to) - halfTaps + 1;
+    if (keepFrom > historyStart) {
+      this.history = history.slice(Math.min(history.length, keepFrom - historyStart));
+      this.historyStart = Math.min(received, keepFrom);
+    }
+    return out;
+  }
+}
+
+function downmixAudioData(data: AudioData): Float32Array {
+  const mono = new Float32Array(data.numberOfFrames);
+  const plane = new Float32Array(data.numberOfFrames);
+  for (let c = 0; c < data.numberOfChannels; c++) {
+    data.copyTo(plane, { planeIndex: c, format: 'f32-planar' });
+    for (let i = 0; i < mono.length; i++) mono[i] += plane[i] / data.numberOfChannels;
+  }
+  return mono;
+}
+
+// Packets waiting in the decoder before reading more of the file
+const MAX_DECODE_QUEUE = 32;
+
+// The demuxed packets run through one AudioDecoder from start to end, so decoder state carries
+// across windows and nothing shifts at their seams. Only the current window's output is held.
+function codecSource(track: EncodedTrack, duration: number): AudioSource {
+  // Created on the first output: HE-AAC decodes to twice the rate its container declares
+  let resampler: Resampler | null = null;
+  const windowSamples = WINDOW_S * SAMPLING_RATE;
+  let pending: Float32Array[] = [];
+  let pendingLength = 0;
+  let skip = track.skip;
+  let failure: Error | null = null;
+  let finished = false;
+  let timestamp = 0;
+  let wake: (() => void) | null = null;
+
+  const push = (samples: Float32Array) => {
+    if (samples.length === 0) return;
+    pending.push(samples);
+    pendingLength += samples.length;
+  };
+
+  const take = (count: number): Float32Array => {
+    const out = new Float32Array(Math.min(count, pendingLength));
+    let offset = 0;
+    while (offset < out.length) {
+      const head = pending[0];
+      const n = Math.min(head.length, out.length - offset);
+      out.set(head.subarray(0, n), offset);
+      offset += n;
+      if (n === head.length) pending.shift();
+      else pending[0] = head.subarray(n);
+    }
+    pendingLength -= out.length;
+    return out;
+  };
+
+  const decoder = new AudioDecoder({
+    output: (data) => {
+      let mono = downmixAudioData(data);
+      if (!resampler) {
+        resampler = new Resampler(data.sampleRate, SAMPLING_RATE);
+        skip = Math.round(skip * data.sampleRate / track.config.sampleRate);
+      }
+      data.close();
+      if (skip > 0) {
+        const n = Math.min(skip, mono.length);
+        mono = mono.subarray(n);
+        skip -= n;
+      }
+      push(resampler.process(mono));
+    },
+    error: (err) => {
+      failure = err;
+      wake?.();
+    },
+  });
+  decoder.addEventListener('dequeue', () => wake?.());
+  decoder.configure(track.config);
+
+  return {
+    duration,
+    next: async () => {
+      while (pendingLength < windowSamples && !finished) {
+        if (failure) throw failure;
+        const { value, done } = await track.packets.next();
+        if (done) {
+          await decoder.flush();
+          decoder.close();
+          if (resampler) push(resampler.flush());
+          finished = true;
+          break;
+        }
+        decoder.decode(new EncodedAudioChunk({ type: 'key', timestamp: timestamp++, data: value }));
+        if (decoder.decodeQueueSize > MAX_DECODE_QUEUE) {
+          await new Promise<void>(resolve => { wake = resolve; });
+          wake = null;
+        }
+      }
+      if (failure) throw failure;
+      const audio = take(windowSamples);
+      return { audio, isLast: finished && pendingLength === 0 };
+    },
+    // A `next()` still waiting on the decoder rejects instead of hanging
+    close: () => {
+      if (decoder.state !== 'closed') decoder.close();
+      failure ??= new DOMException('Decoding was cancelled.', 'AbortError');
+      pending = [];
+      pendingLength = 0;
+      void track.packets.return(undefined);
+      wake?.();
+    },
+  };
+}
+
+async function decoderSupports(config: AudioDecoderConfig): Promise<boolean> {
+  if (typeof AudioDecoder === 'undefined') return false;
+  try {
+    return !!(await AudioDecoder.isConfigSupported(config)).supported;
+  } catch (err) {
+    return false;
+  }
+}
+
+// Without WebCodecs, MP3 and ADTS frames are decoded a slice at a time instead. Each slice is
+// decoded with the previous slice's last few frames in front, which primes the decoder and the MP3
+// bit reservoir at the seam; the audio those frames produce is dropped again. Cuts are placed on
+// the frame grid at 16 kHz, so the slices add up sample for sample.
+const WARMUP_FRAMES = 10;
+
+function frameSource(track: EncodedTrack, duration: number): AudioSource {
+  const samplesAt = (frames: number) => Math.round(frames * track.frameSamples! * SAMPLING_RATE / track.config.sampleRate);
+  const skip = Math.round(track.skip * SAMPLING_RATE / track.config.sampleRate);
+  let warmup: Uint8Array[] = [];
+  let frames = 0;
+  let finished = false;
+  return {
+    duration,
+    next: async () => {
+      const slice: Uint8Array[] = [];
+      let bytes = 0;
+      while (bytes < MP3_SLICE_BYTES) {
+        const { value, done } = await track.packets.next();
+        if (done) {
+          finished = true;
+          break;
+        }
+        slice.push(value);
+        bytes += value.length;
+      }
+      if (slice.length === 0) return { audio: new Float32Array(0), isLast: true };
+
+      const input = new Uint8Array(warmup.concat(slice).reduce((sum, part) => sum + part.length, 0));
+      let offset = 0;
+      for (const part of warmup.concat(slice)) {
+        input.set(part, offset);
+        offset += part.length;
+      }
+      const decoded = await decodeBytes(input.buffer);
+
+      const first = frames;
+      frames += slice.length;
+      const from = samplesAt(first) - samplesAt(first - warmup.length) + (first === 0 ? skip : 0);
+      const length = finished ? decoded.length : samplesAt(frames) - samplesAt(first) - (first === 0 ? skip : 0);
+      warmup = slice.slice(-WARMUP_FRAMES);
+      return { audio: decoded.slice(from, from + length), isLast: finished };
+    },
+    close: () => {
+      warmup = [];
+      void track.packets.return(undefined);
+    },
+  };
+}
+
+// Last resort when neither WebCodecs nor frame slicing applies: decode once, hand out windows
+function wholeFileSource(file: File, duration: number): AudioSource {
+  let audio: Float32Array | null = null;
+  let position = 0;
+  const windowSamples = WINDOW_S * SAMPLING_RATE;
+  return {
+    duration,
+    next: async () => {
+      if (!audio) audio = await decodeAudio(file);
+      const window = audio.slice(position, position + windowSamples);
+      position += windowSamples;
+      const isLast = position >= audio.length;
+      if (isLast) audio = null;
+      return { audio: window, isLast };
+    },
+    close: () => {
+      audio = null;
+    },
+  };
+}
+
+export async function openAudioSource(file: File): Promise<AudioSource> {
+  const head = await file.slice(0, HEADER_PROBE_BYTES).arrayBuffer();
+  const wav = parseWav(head, file.size);
+  if (wav) return wavSource(file, wav);
+
+  const duration = await getMediaDuration(file);
+  const track = await openTrack(file).catch(() => null);
+  if (track && await decoderSupports(track.config)) return codecSource(track, duration);
+  if (track?.frameSamples) return frameSource(track, duration);
+  return wholeFileSource(file, duration);
+}
@@ -0,0 +1,86 @@
+import type { SubtitleCue } from './subtitles';
+import { wordText } from './transcript';
+
+// How captions are drawn over the video preview
+
+export interface CaptionStyle {
+  visible: boolean;
+  // Let the browser render the generated VTT track itself, as a player would, instead of the overlay
+  native: boolean;
+  // Text height as a percentage of the video width, so captions scale with the player and fullscreen
+  size: number;
+  color: string;
+  // Opacity of the box behind the text; 0 draws an outline instead
+  background: number;
+  position: 'bottom' | 'top';
+  // Highlight each word as it is spoken (overlay only)
+  karaoke: boolean;
+  highlight: string;
+}
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  visible: true,
+  native: false,
+  size: 3.5,
+  color: '#ffffff',
+  background: 0.6,
+  position: 'bottom',
+  karaoke: true,
+  highlight: '#facc15',
+};
+
+export const CAPTION_SIZES = [
+  { label: 'Small', value: 2.5 },
+  { label: 'Medium', value: 3.5 },
+  { label: 'Large', value: 4.5 },
+  { label: 'Huge', value: 6 },
+];
+
+export const CAPTION_BACKGROUNDS = [
+  { label: 'No box', value: 0 },
+  { label: 'Light box', value: 0.35 },
+  { label: 'Dark box', value: 0.6 },
+  { label: 'Solid box', value: 1 },
+];
+
+const CAPTION_STYLE_KEY = 'captionStyle';
+
+export function loadCaptionStyle(): CaptionStyle {
+  try {
+    return { ...DEFAULT_CAPTION_STYLE, ...JSON.parse(localStorage.getItem(CAPTION_STYLE_KEY) ?? '{}') };
+  } catch (e) {
+    return DEFAULT_CAPTION_STYLE;
+  }
+}
+
+export function saveCaptionStyle(style: CaptionStyle) {
+  localStorage.setItem(CAPTION_STYLE_KEY, JSON.stringify(style));
+}
+
+// Index of the cue on screen at `time`, or -1 between cues
+export function cueIndexAt(cues: SubtitleCue[], time: number): number {
+  let low = 0;
+  let high = cues.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (cues[mid].end <= time) low = mid + 1;
+    else if (cues[mid].start > time) high = mid - 1;
+    else return mid;
+  }
+  return -1;
+}
+
+// A cue's lines with the words each one was wrapped from, so the overlay can highlight them.
+// Lines with no words of their own (the translation in a dual-line cue) come back empty.
+export function cueLineWords(cue: SubtitleCue): { text: string; words: SubtitleCue['words'] }[] {
+  const words = cue.words.filter(word => wordText(word).trim());
+  let next = 0;
+  return cue.lines.map(text => {
+    const count = text.split(' ').length;
+    const lineWords = words.slice(next, next + count);
+    const matches = lineWords.length === count && lineWords.map(word => wordText(word).trim()).join(' ') === text;
+    if (!matches) return { text, words: [] };
+    next += count;
+    return { text, words: lineWords };
+  });
+}
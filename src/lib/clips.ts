@@ -0,0 +1,182 @@
+import type { TranscriptionOutput, WordTimestamp } from '../types';
+import type { SearchHit } from './search';
+import { CueOptions } from './subtitles';
+import { runExporter } from './exporters';
+import { ZipWriter } from './zip';
+import { openAudioSource, SAMPLING_RATE } from './audio';
+import { wordText, wordStart, wordEnd, joinWords } from './transcript';
+import { segmentStarts } from './playback';
+
+// Cutting a stretch of the transcript out as a WAV clip with its own zero-based subtitles
+
+export interface ClipRange {
+  name: string;
+  // Word index range [first, last] the clip covers
+  first: number;
+  last: number;
+  // Padded media span of the clip
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_CLIP_PADDING_S = 0.25;
+
+function formatClipTime(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${String(m).padStart(2, '0')}m${String(s).padStart(2, '0')}s`;
+}
+
+// "012 - 03m14s Speaker 2 - so what we found" style file name, safe on every platform
+function clipName(chunks: WordTimestamp[], first: number, last: number, number?: number): string {
+  const words = joinWords(chunks.slice(first, Math.min(last + 1, first + 6)))
+    .replace(/[\\/:*?"<>|]+/g, '')
+    .slice(0, 40)
+    .trim();
+  const speaker = chunks[first].speaker ? ` ${chunks[first].speaker}` : '';
+  const prefix = number === undefined ? 'clip' : String(number).padStart(3, '0');
+  return `${prefix} - ${formatClipTime(wordStart(chunks[first]))}${speaker}${words ? ` - ${words}` : ''}`;
+}
+
+export function clipRange(chunks: WordTimestamp[], first: number, last: number, padding: number, duration: number, number?: number): ClipRange {
+  const end = wordEnd(chunks[last]) + padding;
+  return {
+    name: clipName(chunks, first, last, number),
+    first,
+    last,
+    start: Math.max(0, wordStart(chunks[first]) - padding),
+    end: duration > 0 ? Math.min(duration, end) : end,
+  };
+}
+
+// One clip per speaker turn
+export function turnRanges(chunks: WordTimestamp[], padding: number, duration: number): ClipRange[] {
+  const starts = segmentStarts(chunks, true);
+  return starts.map((first, i) => {
+    const last = (starts[i + 1] ?? chunks.length) - 1;
+    return clipRange(chunks, first, last, padding, duration, i + 1);
+  });
+}
+
+// One clip per search hit
+export function hitRanges(chunks: WordTimestamp[], hits: SearchHit[], padding: number, duration: number): ClipRange[] {
+  return hits.map((hit, i) => clipRange(chunks, hit.firstWord, hit.lastWord - 1, padding, duration, i + 1));
+}
+
+// The clip's words and translation, shifted so the clip's first sample is 0:00
+export function clipTranscription(transcription: TranscriptionOutput, range: ClipRange): TranscriptionOutput {
+  const shift = (time: number) => Math.max(0, time - range.start);
+  const chunks = transcription.chunks.slice(range.first, range.last + 1).map((chunk): WordTimestamp => ({
+    ...chunk,
+    timestamp: [shift(wordStart(chunk)), shift(wordEnd(chunk))],
+  }));
+  const translation = transcription.translation
+    ?.filter(segment => segment.end > range.start && segment.start < range.end)
+    .map(segment => ({
+      ...segment,
+      start: shift(segment.start),
+      end: Math.min(range.end, segment.end) - range.start,
+    }));
+  return {
+    text: chunks.map(wordText).join('').trim(),
+    chunks,
+    speakerColors: transcription.speakerColors,
+    translation,
+    language: transcription.language,
+  };
+}
+
+// Decodes the file window by window, copying out only the samples the clips need, so even a
+// batch over a long recording never holds the whole signal. Each range's 16 kHz mono samples are
+// allocated when decoding reaches it and handed to onClip as soon as its last window is in.
+export async function extractClips(
+  file: File,
+  ranges: ClipRange[],
+  onClip: (index: number, samples: Float32Array) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const source = await openAudioSource(file);
+  const bounds = ranges.map(range => {
+    const from = Math.round(range.start * SAMPLING_RATE);
+    return { from, to: Math.max(from, Math.round(range.end * SAMPLING_RATE)) };
+  });
+  const clips = new Map<number, Float32Array>();
+  const pending = new Set(bounds.keys());
+  let offset = 0;
+
+  try {
+    while (pending.size > 0) {
+      if (signal?.aborted) throw new DOMException('Clip export was cancelled.', 'AbortError');
+      const { audio, isLast } = await source.next();
+      const windowEnd = offset + audio.length;
+      for (const i of pending) {
+        const { from, to } = bounds[i];
+        if (from > windowEnd && !isLast) continue;
+        let clip = clips.get(i);
+        if (!clip) clips.set(i, (clip = new Float32Array(to - from)));
+        const a = Math.max(from, offset);
+        const b = Math.min(to, windowEnd);
+        if (a < b) clip.set(audio.subarray(a - offset, b - offset), a - from);
+        // A range running past the end of the audio is finished with silence
+        if (to <= windowEnd || isLast) {
+          clips.delete(i);
+          pending.delete(i);
+          onClip(i, clip);
+        }
+      }
+      offset = windowEnd;
+      if (isLast) break;
+    }
+  } finally {
+    source.close();
+  }
+}
+
+// 16-bit PCM mono RIFF/WAVE
+export function encodeWav(samples: Float32Array, sampleRate = SAMPLING_RATE): Uint8Array {
+  const bytes = new Uint8Array(44 + samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  const ascii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  ascii(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  ascii(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return bytes;
+}
+
+// Zip of a WAV plus zero-based SRT and VTT for every range, each clip encoded and added as soon
+// as its samples are decoded
+export async function buildClipZip(
+  file: File,
+  transcription: TranscriptionOutput,
+  ranges: ClipRange[],
+  cueOptions: CueOptions,
+  signal?: AbortSignal,
+): Promise<Blob> {
+  const zip = new ZipWriter();
+  await extractClips(file, ranges, (i, samples) => {
+    const range = ranges[i];
+    const clipped = clipTranscription(transcription, range);
+    zip.add({ name: `${range.name}.wav`, data: encodeWav(samples) });
+    for (const format of ['srt', 'vtt']) {
+      const { content, filename } = runExporter(format, clipped, { cueOptions }, range.name);
+      zip.add({ name: filename, data: content });
+    }
+  }, signal);
+  return zip.finish();
+}
@@ -0,0 +1,66 @@
+import type { TranscriptionOutput, WordTimestamp } from '../types';
+import { wordText } from './transcript';
+import { withChunks } from './transcriptEditor';
+
+export interface TokenProbability {
+  id: number;
+  probability: number;
+}
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.5;
+
+// Each word gets the mean probability of the tokens whose text starts inside it. Token text is
+// measured by decoding growing prefixes, since byte-level tokens of one character may not decode
+// on their own.
+export function attachConfidence(
+  words: WordTimestamp[],
+  tokens: TokenProbability[],
+  decode: (ids: number[]) => string
+): WordTimestamp[] {
+  if (words.length === 0 || tokens.length === 0) return words;
+
+  const wordEnds: number[] = [];
+  let length = 0;
+  for (const word of words) {
+    length += wordText(word).length;
+    wordEnds.push(length);
+  }
+
+  const sums = new Array(words.length).fill(0);
+  const counts = new Array(words.length).fill(0);
+  let tokenStart = 0;
+  let w = 0;
+  tokens.forEach((token, i) => {
+    const tokenEnd = decode(tokens.slice(0, i + 1).map(t => t.id)).length;
+    if (tokenEnd > tokenStart) {
+      while (w < words.length - 1 && tokenStart >= wordEnds[w]) w++;
+      sums[w] += token.probability;
+      counts[w]++;
+    }
+    tokenStart = tokenEnd;
+  });
+
+  return words.map((word, i) => counts[i] > 0 ? { ...word, confidence: sums[i] / counts[i] } : word);
+}
+
+// Indices of words scored below the threshold; words without a score are never listed
+export function lowConfidenceWords(chunks: WordTimestamp[], threshold: number): number[] {
+  const indices: number[] = [];
+  chunks.forEach((chunk, i) => {
+    if (chunk.confidence !== undefined && chunk.confidence < threshold) indices.push(i);
+  });
+  return indices;
+}
+
+// A reviewer confirmed the word as heard
+export function acceptWord(transcription: TranscriptionOutput, index: number): TranscriptionOutput {
+  const chunks = [...transcription.chunks];
+  chunks[index] = { ...chunks[index], confidence: 1 };
+  return withChunks(transcription, chunks);
+}
+
+// Red wash that deepens as confidence drops; confident and unscored words stay unshaded
+export function confidenceTint(confidence: number | undefined): string | undefined {
+  if (confidence === undefined || confidence >= 0.9) return undefined;
+  return `rgba(239, 68, 68, ${((0.9 - confidence) / 0.9 * 0.45).toFixed(2)})`;
+}
@@ -0,0 +1,725 @@
+// Just enough container parsing to feed a file's audio packets to WebCodecs' AudioDecoder in order,
+// reading the file piece by piece: MP4/M4A/MOV, Matroska/WebM, Ogg, and raw MP3/ADTS frame streams.
+
+export interface EncodedTrack {
+  config: AudioDecoderConfig;
+  // Source-rate samples of encoder delay to drop from the start of the decoded audio
+  skip: number;
+  // Samples each packet decodes to, for the constant-frame MP3 and ADTS streams
+  frameSamples?: number;
+  // Single use: the packets in decoding order
+  packets: AsyncGenerator<Uint8Array>;
+}
+
+const READ_BYTES = 1024 * 1024;
+
+// Sequential reads through a file with one buffered megabyte at a time
+class ByteReader {
+  file: Blob;
+  position: number;
+  buffer = new Uint8Array(0);
+  bufferStart = 0;
+
+  constructor(file: Blob, position = 0) {
+    this.file = file;
+    this.position = position;
+  }
+
+  // Up to `length` bytes from the current position; fewer only at the end of the file
+  async bytes(length: number): Promise<Uint8Array> {
+    const offset = this.position - this.bufferStart;
+    if (offset < 0 || offset + length > this.buffer.length) {
+      const end = this.position + Math.max(length, READ_BYTES);
+      this.buffer = new Uint8Array(await this.file.slice(this.position, end).arrayBuffer());
+      this.bufferStart = this.position;
+    }
+    const start = this.position - this.bufferStart;
+    const out = this.buffer.subarray(start, start + length);
+    this.position += out.length;
+    return out;
+  }
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function viewOf(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// AAC object type from an AudioSpecificConfig, as used in the `mp4a.40.x` codec string
+function aacCodec(config?: Uint8Array): string {
+  if (!config || config.length < 2) return 'mp4a.40.2';
+  const type = config[0] >> 3;
+  return `mp4a.40.${type === 31 ? 32 + (((config[0] & 7) << 3) | (config[1] >> 5)) : type}`;
+}
+
+// ---- MPEG audio and ADTS ----
+
+interface FrameHeader {
+  length: number;
+  sampleRate: number;
+  channels: number;
+  samples: number;
+  codec: string;
+}
+
+const MP3_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_LSF_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// The MP3 (MPEG layer III) or ADTS frame header at `offset`, or null if there is none
+function frameHeader(bytes: Uint8Array, offset: number): FrameHeader | null {
+  if (offset + 6 > bytes.length || bytes[offset] !== 0xff) return null;
+  const [b1, b2, b3, b4, b5] = bytes.subarray(offset + 1, offset + 6);
+
+  if ((b1 & 0xf6) === 0xf0) {
+    const rate = ADTS_SAMPLE_RATES[(b2 >> 2) & 0xf];
+    const length = ((b3 & 3) << 11) | (b4 << 3) | (b5 >> 5);
+    if (!rate || length < 7) return null;
+    const channels = ((b2 & 1) << 2) | (b3 >> 6);
+    return { length, sampleRate: rate, channels: channels || 2, samples: 1024, codec: `mp4a.40.${(b2 >> 6) + 1}` };
+  }
+
+  const version = (b1 >> 3) & 3;
+  const layer = (b1 >> 1) & 3;
+  const bitrateIndex = b2 >> 4;
+  const rateIndex = (b2 >> 2) & 3;
+  if ((b1 & 0xe0) !== 0xe0 || version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+  const mpeg1 = version === 3;
+  const sampleRate = MP3_SAMPLE_RATES[rateIndex] / (mpeg1 ? 1 : version === 2 ? 2 : 4);
+  const bitrate = (mpeg1 ? MP3_BITRATES : MP3_LSF_BITRATES)[bitrateIndex] * 1000;
+  const samples = mpeg1 ? 1152 : 576;
+  return {
+    length: Math.floor((samples / 8) * bitrate / sampleRate) + ((b2 >> 1) & 1),
+    sampleRate,
+    channels: b3 >> 6 === 3 ? 1 : 2,
+    samples,
+    codec: 'mp3',
+  };
+}
+
+// Size of the ID3v2 tag at the start of the file, footer included, or 0. Tags with cover art easily
+// run to megabytes, so frame parsing has to start after it rather than search through it.
+function id3Length(bytes: Uint8Array): number {
+  if (bytes.length < 10 || ascii(bytes, 0, 3) !== 'ID3') return 0;
+  const size = ((bytes[6] & 0x7f) << 21) | ((bytes[7] & 0x7f) << 14) | ((bytes[8] & 0x7f) << 7) | (bytes[9] & 0x7f);
+  return 10 + size + (bytes[5] & 0x10 ? 10 : 0);
+}
+
+// A header counts as a sync point only if the frame after it starts with another header
+function findFrame(bytes: Uint8Array, from: number): number {
+  for (let i = from; i + 6 <= bytes.length; i++) {
+    const header = frameHeader(bytes, i);
+    if (header && (i + header.length + 6 > bytes.length || frameHeader(bytes, i + header.length))) return i;
+  }
+  return -1;
+}
+
+// Encoder delay from the Xing/Info frame's LAME tag, or null if the frame is not a Xing/Info frame
+function lameDelay(frame: Uint8Array): number | null {
+  const mpeg1 = ((frame[1] >> 3) & 3) === 3;
+  const mono = frame[3] >> 6 === 3;
+  const xing = 4 + (mpeg1 ? (mono ? 17 : 32) : (mono ? 9 : 17));
+  if (xing + 8 > frame.length) return null;
+  const tag = ascii(frame, xing, 4);
+  if (tag !== 'Xing' && tag !== 'Info') return null;
+  const flags = viewOf(frame).getUint32(xing + 4);
+  let offset = xing + 8;
+  if (flags & 1) offset += 4;
+  if (flags & 2) offset += 4;
+  if (flags & 4) offset += 100;
+  if (flags & 8) offset += 4;
+  if (offset + 24 > frame.length || !/^(LAME|Lavc|Lavf)$/.test(ascii(frame, offset, 4))) return 0;
+  return (frame[offset + 21] << 4) | (frame[offset + 22] >> 4);
+}
+
+async function* mpegFrames(reader: ByteReader, first?: Uint8Array): AsyncGenerator<Uint8Array> {
+  if (first) yield first;
+  while (reader.position < reader.file.size) {
+    const head = await reader.bytes(6);
+    reader.position -= head.length;
+    const header = frameHeader(head, 0);
+    if (header) {
+      const frame = await reader.bytes(header.length);
+      // A frame cut off by the end of the file would only make the decoder fail
+      if (frame.length < header.length) return;
+      yield frame;
+      continue;
+    }
+    // Lost sync on junk or a trailing tag: resume at the next frame, if there is one
+    const probe = await reader.bytes(64 * 1024);
+    const sync = findFrame(probe, 1);
+    if (sync === -1 && probe.length < 64 * 1024) return;
+    reader.position -= probe.length - (sync === -1 ? probe.length - 6 : sync);
+  }
+}
+
+async function frameStreamTrack(file: Blob): Promise<EncodedTrack | null> {
+  const start = id3Length(new Uint8Array(await file.slice(0, 10).arrayBuffer()));
+  const reader = new ByteReader(file, start);
+  const probe = await reader.bytes(64 * 1024);
+  const sync = findFrame(probe, 0);
+  if (sync === -1) return null;
+  const header = frameHeader(probe, sync)!;
+  reader.position = start + sync;
+
+  // A leading Xing/Info frame carries no audio; its LAME tag says how much encoder delay to drop,
+  // plus the 529 samples every MP3 decoder lags by
+  let first: Uint8Array | undefined = await reader.bytes(header.length);
+  let skip = 0;
+  const delay = header.codec === 'mp3' ? lameDelay(first) : null;
+  if (delay !== null) {
+    skip = delay > 0 ? delay + 529 : 0;
+    first = undefined;
+  }
+
+  return {
+    config: { codec: header.codec, sampleRate: header.sampleRate, numberOfChannels: header.channels },
+    skip,
+    frameSamples: header.samples,
+    packets: mpegFrames(reader, first),
+  };
+}
+
+// ---- MP4 ----
+
+interface Box {
+  type: string;
+  start: number;
+  end: number;
+}
+
+function childBoxes(bytes: Uint8Array, start = 0, end = bytes.length): Box[] {
+  const view = viewOf(bytes);
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) break;
+    boxes.push({ type: ascii(bytes, offset + 4, 4), start: offset + header, end: Math.min(end, offset + size) });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(bytes: Uint8Array, parent: Box | null, ...path: string[]): Box | undefined {
+  let box = parent ?? undefined;
+  for (const type of path) {
+    box = childBoxes(bytes, box?.start, box?.end).find(child => child.type === type);
+    if (!box) return undefined;
+  }
+  return box;
+}
+
+// An MPEG-4 descriptor: one tag byte, then a length of up to four 7-bit groups
+function descriptor(bytes: Uint8Array, offset: number): { tag: number, start: number, end: number } {
+  let length = 0;
+  let i = offset + 1;
+  for (let n = 0; n < 4; n++) {
+    const byte = bytes[i++];
+    length = (length << 7) | (byte & 0x7f);
+    if (!(byte & 0x80)) break;
+  }
+  return { tag: bytes[offset], start: i, end: i + length };
+}
+
+// Codec and decoder config from the esds box: MP4's ES_Descriptor > DecoderConfigDescriptor > DecoderSpecificInfo
+function esdsConfig(bytes: Uint8Array, esds: Box): { codec: string, description?: Uint8Array } | null {
+  const es = descriptor(bytes, esds.start + 4);
+  if (es.tag !== 3) return null;
+  const flags = bytes[es.start + 2];
+  let offset = es.start + 3;
+  if (flags & 0x80) offset += 2;
+  if (flags & 0x40) offset += 1 + bytes[offset];
+  if (flags & 0x20) offset += 2;
+  const decoderConfig = descriptor(bytes, offset);
+  if (decoderConfig.tag !== 4) return null;
+  const objectType = bytes[decoderConfig.start];
+  if (objectType === 0x69 || objectType === 0x6b) return { codec: 'mp3' };
+  if (objectType !== 0x40 && objectType !== 0x66 && objectType !== 0x67 && objectType !== 0x68) return null;
+  const specific = decoderConfig.start + 13 < decoderConfig.end ? descriptor(bytes, decoderConfig.start + 13) : null;
+  const description = specific?.tag === 5 ? bytes.slice(specific.start, specific.end) : undefined;
+  return { codec: aacCodec(description), description };
+}
+
+// An OpusHead's pre-skip: 48 kHz samples of encoder delay the decoder still outputs
+function opusPreSkip(head?: Uint8Array): number {
+  return head && head.length >= 12 ? viewOf(head).getUint16(10, true) : 0;
+}
+
+// MP4's big-endian dOps box rewritten as the OpusHead header the Opus decoder expects
+function opusHead(bytes: Uint8Array, dOps: Box): Uint8Array {
+  const source = viewOf(bytes.subarray(dOps.start, dOps.end));
+  const head = new Uint8Array(19 + Math.max(0, dOps.end - dOps.start - 11));
+  const view = viewOf(head);
+  head.set([0x4f, 0x70, 0x75, 0x73, 0x48, 0x65, 0x61, 0x64, 1, source.getUint8(1)]);
+  view.setUint16(10, source.getUint16(2), true);
+  view.setUint32(12, source.getUint32(4), true);
+  view.setInt16(16, source.getInt16(8), true);
+  head.set(bytes.subarray(dOps.start + 10, dOps.end), 18);
+  return head;
+}
+
+function sampleEntryConfig(bytes: Uint8Array, entry: Box): AudioDecoderConfig | null {
+  const view = viewOf(bytes);
+  const version = view.getUint16(entry.start + 8);
+  let sampleRate = view.getUint32(entry.start + 24) >>> 16;
+  let numberOfChannels = view.getUint16(entry.start + 16);
+  // QuickTime sound descriptions grow extra fields in versions 1 and 2
+  let children = entry.start + 28 + (version === 1 ? 16 : 0);
+  if (version === 2) {
+    sampleRate = view.getFloat64(entry.start + 32);
+    numberOfChannels = view.getUint32(entry.start + 40);
+    children = entry.start + 64;
+  }
+  const child = { type: entry.type, start: children, end: entry.end };
+
+  switch (entry.type) {
+    case 'mp4a': {
+      const esds = findBox(bytes, child, 'esds') ?? findBox(bytes, child, 'wave', 'esds');
+      const config = esds && esdsConfig(bytes, esds);
+      return config ? { ...config, sampleRate, numberOfChannels } : null;
+    }
+    case '.mp3':
+      return { codec: 'mp3', sampleRate, numberOfChannels };
+    case 'Opus': {
+      const dOps = findBox(bytes, child, 'dOps');
+      return dOps ? { codec: 'opus', sampleRate: 48000, numberOfChannels, description: opusHead(bytes, dOps) } : null;
+    }
+    case 'fLaC': {
+      const dfLa = findBox(bytes, child, 'dfLa');
+      return dfLa ? { codec: 'flac', sampleRate, numberOfChannels, description: concat([new Uint8Array([0x66, 0x4c, 0x61, 0x43]), bytes.subarray(dfLa.start + 4, dfLa.end)]) } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+interface SampleTable {
+  sizes: Uint32Array;
+  chunkOffsets: number[];
+  chunkSamples: Uint32Array;
+}
+
+function sampleTable(bytes: Uint8Array, stbl: Box): SampleTable | null {
+  const view = viewOf(bytes);
+  const stsz = findBox(bytes, stbl, 'stsz');
+  const stsc = findBox(bytes, stbl, 'stsc');
+  const stco = findBox(bytes, stbl, 'stco');
+  const co64 = findBox(bytes, stbl, 'co64');
+  if (!stsz || !stsc || (!stco && !co64)) return null;
+
+  const constantSize = view.getUint32(stsz.start + 4);
+  const sizes = new Uint32Array(view.getUint32(stsz.start + 8));
+  for (let i = 0; i < sizes.length; i++) sizes[i] = constantSize || view.getUint32(stsz.start + 12 + i * 4);
+
+  const chunkOffsets: number[] = [];
+  const offsets = (stco ?? co64)!;
+  const count = view.getUint32(offsets.start + 4);
+  for (let i = 0; i < count; i++) {
+    chunkOffsets.push(stco
+      ? view.getUint32(stco.start + 8 + i * 4)
+      : view.getUint32(offsets.start + 8 + i * 8) * 2 ** 32 + view.getUint32(offsets.start + 12 + i * 8));
+  }
+
+  // stsc lists runs of chunks that share a samples-per-chunk count, by their 1-based first chunk
+  const chunkSamples = new Uint32Array(count);
+  const runs = view.getUint32(stsc.start + 4);
+  for (let i = 0; i < runs; i++) {
+    const first = view.getUint32(stsc.start + 8 + i * 12) - 1;
+    const next = i + 1 < runs ? view.getUint32(stsc.start + 8 + (i + 1) * 12) - 1 : count;
+    chunkSamples.fill(view.getUint32(stsc.start + 12 + i * 12), first, next);
+  }
+  return { sizes, chunkOffsets, chunkSamples };
+}
+
+// Chunks stored back to back, as in audio-only files, are read together; in a video file they sit
+// between the video chunks and are read one at a time so the video data is never loaded
+async function* mp4Packets(file: Blob, table: SampleTable): AsyncGenerator<Uint8Array> {
+  const { sizes, chunkOffsets, chunkSamples } = table;
+  let sample = 0;
+  let chunk = 0;
+  while (chunk < chunkOffsets.length && sample < sizes.length) {
+    const start = chunkOffsets[chunk];
+    let end = start;
+    let last = sample;
+    do {
+      for (let i = 0; i < chunkSamples[chunk] && last < sizes.length; i++) end += sizes[last++];
+      chunk++;
+    } while (chunk < chunkOffsets.length && chunkOffsets[chunk] === end && end - start < READ_BYTES);
+
+    const bytes = new Uint8Array(await file.slice(start, end).arrayBuffer());
+    let offset = 0;
+    for (; sample < last; sample++) {
+      yield bytes.subarray(offset, offset + sizes[sample]);
+      offset += sizes[sample];
+    }
+  }
+}
+
+// Media time the edit list starts playback at: the AAC encoder's priming samples, in track timescale units
+function editStart(bytes: Uint8Array, trak: Box): number {
+  const elst = findBox(bytes, trak, 'edts', 'elst');
+  if (!elst) return 0;
+  const view = viewOf(bytes);
+  const version = bytes[elst.start];
+  const count = view.getUint32(elst.start + 4);
+  const entrySize = version === 1 ? 20 : 12;
+  for (let i = 0; i < count; i++) {
+    const entry = elst.start + 8 + i * entrySize;
+    const time = version === 1 ? Number(view.getBigInt64(entry + 8)) : view.getInt32(entry + 4);
+    if (time >= 0) return time;
+  }
+  return 0;
+}
+
+async function mp4Track(file: Blob): Promise<EncodedTrack | null> {
+  // The moov box can sit at either end of the file; step over everything else by its size
+  let offset = 0;
+  let moov: Uint8Array | null = null;
+  while (offset + 8 <= file.size && !moov) {
+    const head = new Uint8Array(await file.slice(offset, offset + 16).arrayBuffer());
+    const view = viewOf(head);
+    const size = view.getUint32(0) === 1 && head.length === 16
+      ? view.getUint32(8) * 2 ** 32 + view.getUint32(12)
+      : view.getUint32(0) || file.size - offset;
+    if (size < 8) return null;
+    if (ascii(head, 4, 4) === 'moov') moov = new Uint8Array(await file.slice(offset, offset + size).arrayBuffer());
+    offset += size;
+  }
+  if (!moov) return null;
+
+  const root = findBox(moov, null, 'moov')!;
+  const trak = childBoxes(moov, root.start, root.end)
+    .filter(box => box.type === 'trak')
+    .find(box => {
+      const hdlr = findBox(moov!, box, 'mdia', 'hdlr');
+      return hdlr && ascii(moov!, hdlr.start + 8, 4) === 'soun';
+    });
+  const stbl = trak && findBox(moov, trak, 'mdia', 'minf', 'stbl');
+  const stsd = stbl && findBox(moov, stbl, 'stsd');
+  const mdhd = trak && findBox(moov, trak, 'mdia', 'mdhd');
+  if (!trak || !stbl || !stsd || !mdhd) return null;
+
+  const entry = childBoxes(moov, stsd.start + 8, stsd.end)[0];
+  const config = entry && sampleEntryConfig(moov, entry);
+  const table = sampleTable(moov, stbl);
+  // Fragmented files keep their samples in moof boxes instead, which is left to the fallback
+  if (!config || !table || table.sizes.length === 0) return null;
+
+  const mdhdView = viewOf(moov);
+  const timescale = mdhdView.getUint32(mdhd.start + (moov[mdhd.start] === 1 ? 20 : 12));
+  return {
+    config,
+    skip: timescale ? Math.round(editStart(moov, trak) * config.sampleRate / timescale) : 0,
+    packets: mp4Packets(file, table),
+  };
+}
+
+// ---- Matroska / WebM ----
+
+const EBML_HEADER = 0x1a45dfa3;
+const SEGMENT = 0x18538067;
+const CLUSTER = 0x1f43b675;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const TRACK_TYPE = 0x83;
+const CODEC_ID = 0x86;
+const CODEC_PRIVATE = 0x63a2;
+const AUDIO = 0xe1;
+const SAMPLING_FREQUENCY = 0xb5;
+const CHANNELS = 0x9f;
+const BLOCK_GROUP = 0xa0;
+const BLOCK = 0xa1;
+const SIMPLE_BLOCK = 0xa3;
+
+// EBML variable-length integer; IDs keep their length marker, sizes drop it. An all-ones size means unknown (-1).
+function vint(bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number, length: number } | null {
+  const first = bytes[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x100 >> length))) length++;
+  if (length > 8 || offset + length > bytes.length) return null;
+  let value = keepMarker ? first : first & ((0x100 >> length) - 1);
+  let allOnes = value === (0x100 >> length) - 1;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    allOnes &&= bytes[offset + i] === 0xff;
+  }
+  return { value: !keepMarker && allOnes ? -1 : value, length };
+}
+
+interface Element {
+  id: number;
+  // -1 for the unknown sizes live recorders write on segments and clusters
+  size: number;
+  start: number;
+  end: number;
+}
+
+function elementAt(bytes: Uint8Array, offset: number, limit = bytes.length): Element | null {
+  const id = vint(bytes, offset, true);
+  const size = id && vint(bytes, offset + id.length, false);
+  if (!id || !size) return null;
+  const start = offset + id.length + size.length;
+  return { id: id.value, size: size.value, start, end: size.value < 0 ? limit : Math.min(limit, start + size.value) };
+}
+
+function childElements(bytes: Uint8Array, start: number, end: number): Element[] {
+  const elements: Element[] = [];
+  for (let offset = start; offset < end;) {
+    const element = elementAt(bytes, offset, end);
+    if (!element || element.size < 0) break;
+    elements.push(element);
+    offset = element.end;
+  }
+  return elements;
+}
+
+async function readElement(reader: ByteReader): Promise<Element | null> {
+  const position = reader.position;
+  const head = await reader.bytes(12);
+  const element = elementAt(head, 0);
+  if (!element) return null;
+  reader.position = position + element.start;
+  const end = element.size < 0 ? reader.file.size : Math.min(reader.file.size, reader.position + element.size);
+  return { ...element, start: reader.position, end };
+}
+
+function uintOf(bytes: Uint8Array, element: Element): number {
+  let value = 0;
+  for (let i = element.start; i < element.end; i++) value = value * 256 + bytes[i];
+  return value;
+}
+
+// The frames in a (Simple)Block for `track`, split along whichever lacing the muxer chose
+function* blockFrames(data: Uint8Array, track: number): Generator<Uint8Array> {
+  const number = vint(data, 0, false);
+  if (!number || number.value !== track) return;
+  const lacing = (data[number.length + 2] >> 1) & 3;
+  let offset = number.length + 3;
+  if (lacing === 0) {
+    yield data.subarray(offset);
+    return;
+  }
+
+  const count = data[offset++] + 1;
+  const sizes: number[] = [];
+  if (lacing === 1) {
+    // Xiph: each size is a run of 255s plus a final byte
+    for (let i = 0; i < count - 1; i++) {
+      let size = 0;
+      let byte;
+      do {
+        byte = data[offset++];
+        size += byte;
+      } while (byte === 255);
+      sizes.push(size);
+    }
+  } else if (lacing === 3) {
+    // EBML: the first size in full, the others as signed differences from the one before
+    for (let i = 0; i < count - 1; i++) {
+      const size = vint(data, offset, false);
+      if (!size) return;
+      offset += size.length;
+      sizes.push(i === 0 ? size.value : sizes[i - 1] + size.value - (2 ** (7 * size.length - 1) - 1));
+    }
+  } else {
+    const size = (data.length - offset) / count;
+    for (let i = 0; i < count - 1; i++) sizes.push(size);
+  }
+  sizes.push(data.length - offset - sizes.reduce((sum, size) => sum + size, 0));
+
+  for (const size of sizes) {
+    yield data.subarray(offset, offset + size);
+    offset += size;
+  }
+}
+
+// Walks the clusters in file order. Blocks of other tracks are stepped over after reading their track number.
+async function* matroskaPackets(reader: ByteReader, track: number, end: number): AsyncGenerator<Uint8Array> {
+  while (reader.position < end) {
+    const element = await readElement(reader);
+    if (!element) return;
+    if (element.id === CLUSTER || element.id === BLOCK_GROUP) continue;
+    if (element.size < 0) return;
+    if (element.id === SIMPLE_BLOCK || element.id === BLOCK) {
+      const number = vint(await reader.bytes(8), 0, false);
+      reader.position = element.start;
+      if (number?.value === track) yield* blockFrames(await reader.bytes(element.size), track);
+    }
+    reader.position = element.end;
+  }
+}
+
+function matroskaConfig(codecId: string, sampleRate: number, numberOfChannels: number, codecPrivate?: Uint8Array): AudioDecoderConfig | null {
+  if (codecId === 'A_OPUS') return { codec: 'opus', sampleRate: 48000, numberOfChannels, description: codecPrivate };
+  if (codecId === 'A_VORBIS' && codecPrivate) return { codec: 'vorbis', sampleRate, numberOfChannels, description: codecPrivate };
+  if (codecId === 'A_FLAC' && codecPrivate) return { codec: 'flac', sampleRate, numberOfChannels, description: codecPrivate };
+  if (codecId === 'A_MPEG/L3') return { codec: 'mp3', sampleRate, numberOfChannels };
+  if (codecId.startsWith('A_AAC')) return { codec: aacCodec(codecPrivate), sampleRate, numberOfChannels, description: codecPrivate };
+  return null;
+}
+
+async function matroskaTrack(file: Blob): Promise<EncodedTrack | null> {
+  const reader = new ByteReader(file);
+  const header = await readElement(reader);
+  if (header?.id !== EBML_HEADER || header.size < 0) return null;
+  reader.position = header.end;
+  const segment = await readElement(reader);
+  if (segment?.id !== SEGMENT) return null;
+
+  // Tracks come before the first cluster in everything browsers and common muxers write
+  while (reader.position < segment.end) {
+    const element = await readElement(reader);
+    if (!element || element.id === CLUSTER || element.size < 0) return null;
+    if (element.id !== TRACKS) {
+      reader.position = element.end;
+      continue;
+    }
+
+    const tracks = await reader.bytes(element.size);
+    for (const entry of childElements(tracks, 0, tracks.length)) {
+      if (entry.id !== TRACK_ENTRY) continue;
+      const fields = childElements(tracks, entry.start, entry.end);
+      const field = (id: number) => fields.find(child => child.id === id);
+      const type = field(TRACK_TYPE);
+      if (!type || uintOf(tracks, type) !== 2) continue;
+
+      const audio = field(AUDIO);
+      const settings = audio ? childElements(tracks, audio.start, audio.end) : [];
+      const frequency = settings.find(child => child.id === SAMPLING_FREQUENCY);
+      const channels = settings.find(child => child.id === CHANNELS);
+      const codecId = field(CODEC_ID);
+      const codecPrivate = field(CODEC_PRIVATE);
+      const number = field(TRACK_NUMBER);
+      const privateData = codecPrivate && tracks.slice(codecPrivate.start, codecPrivate.end);
+      const frequencyView = frequency && viewOf(tracks.subarray(frequency.start, frequency.end));
+      const config = codecId && number && matroskaConfig(
+        ascii(tracks, codecId.start, codecId.end - codecId.start).replace(/\0+$/, ''),
+        frequencyView ? (frequencyView.byteLength === 4 ? frequencyView.getFloat32(0) : frequencyView.getFloat64(0)) : 8000,
+        channels ? uintOf(tracks, channels) : 1,
+        privateData,
+      );
+      if (!config) return null;
+      // Opus' CodecPrivate is its OpusHead
+      const skip = config.codec === 'opus' ? opusPreSkip(privateData) : 0;
+      return { config, skip, packets: matroskaPackets(reader, uintOf(tracks, number!), segment.end) };
+    }
+    return null;
+  }
+  return null;
+}
+
+// ---- Ogg ----
+
+// Packets of the file's first logical stream, reassembled across pages
+async function* oggPackets(reader: ByteReader): AsyncGenerator<Uint8Array> {
+  let serial: number | null = null;
+  let partial: Uint8Array[] = [];
+  while (reader.position < reader.file.size) {
+    const header = await reader.bytes(27);
+    if (header.length < 27 || ascii(header, 0, 4) !== 'OggS') return;
+    const pageSerial = viewOf(header).getUint32(14, true);
+    const continued = header[5] & 1;
+    const lacing = await reader.bytes(header[26]);
+    const body = await reader.bytes(lacing.reduce((sum, size) => sum + size, 0));
+    serial ??= pageSerial;
+    if (pageSerial !== serial) continue;
+    if (!continued) partial = [];
+
+    let offset = 0;
+    for (const size of lacing) {
+      partial.push(body.subarray(offset, offset + size));
+      offset += size;
+      if (size < 255) {
+        yield concat(partial);
+        partial = [];
+      }
+    }
+  }
+}
+
+// Vorbis' three header packets in the Xiph-laced layout the decoder takes as its description
+function xiphLace(packets: Uint8Array[]): Uint8Array {
+  const sizes: number[] = [];
+  for (const packet of packets.slice(0, -1)) {
+    let size = packet.length;
+    for (; size >= 255; size -= 255) sizes.push(255);
+    sizes.push(size);
+  }
+  return concat([new Uint8Array([packets.length - 1, ...sizes]), ...packets]);
+}
+
+async function oggTrack(file: Blob): Promise<EncodedTrack | null> {
+  const packets = oggPackets(new ByteReader(file));
+  const next = async () => (await packets.next()).value as Uint8Array | undefined;
+  const first = await next();
+  if (!first) return null;
+
+  if (ascii(first, 0, 8) === 'OpusHead') {
+    await next(); // OpusTags
+    return { config: { codec: 'opus', sampleRate: 48000, numberOfChannels: first[9], description: first }, skip: opusPreSkip(first), packets };
+  }
+  if (first[0] === 1 && ascii(first, 1, 6) === 'vorbis') {
+    const comments = await next();
+    const setup = await next();
+    if (!comments || !setup) return null;
+    const config = {
+      codec: 'vorbis',
+      sampleRate: viewOf(first).getUint32(12, true),
+      numberOfChannels: first[11],
+      description: xiphLace([first, comments, setup]),
+    };
+    return { config, skip: 0, packets };
+  }
+  if (first[0] === 0x7f && ascii(first, 1, 4) === 'FLAC') {
+    // The mapping header wraps a native fLaC marker and STREAMINFO; the other metadata packets follow
+    const extra = viewOf(first).getUint16(7);
+    for (let i = 0; i < extra; i++) await next();
+    const info = first.subarray(17);
+    const config = {
+      codec: 'flac',
+      sampleRate: (info[10] << 12) | (info[11] << 4) | (info[12] >> 4),
+      numberOfChannels: ((info[12] >> 1) & 7) + 1,
+      description: first.slice(9),
+    };
+    return { config, skip: 0, packets };
+  }
+  return null;
+}
+
+// Raw frame streams have no magic number, so they go by type and extension
+export function isFrameStream(file: File): boolean {
+  return /^audio\/(mpeg|mp3|aac|x-aac)$/.test(file.type) || /\.(mp3|aac)$/i.test(file.name);
+}
+
+// The file's first audio track, or null if its container or codec is not one of the above
+export async function openTrack(file: File): Promise<EncodedTrack | null> {
+  const head = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+  if (head.length < 12) return null;
+  if (ascii(head, 0, 4) === 'OggS') return oggTrack(file);
+  if (viewOf(head).getUint32(0) === EBML_HEADER) return matroskaTrack(file);
+  if (/^(ftyp|moov|mdat|free|skip|wide)$/.test(ascii(head, 4, 4))) return mp4Track(file);
+  return isFrameStream(file) ? frameStreamTrack(file) : null;
+}
@@ -0,0 +1,193 @@
+import type { WordTimestamp } from '../types';
+import { wordStart, wordEnd } from './transcript';
+
+// Heuristic Diarization (Pause-based): a pause longer than this flips between two speakers
+const SPEAKER_PAUSE_S = 1.5;
+
+// Speech segments for embedding: split on short pauses and cap the length so one segment rarely holds two voices
+const SEGMENT_GAP_S = 0.5;
+const SEGMENT_MAX_S = 4;
+export const SEGMENT_MIN_S = 0.6;
+
+// Cosine similarity above which two segments are treated as the same voice (wavlm-base-plus-sv model card uses 0.86)
+const SAME_SPEAKER_SIMILARITY = 0.86;
+// Tighter threshold for the first online pass that folds near-duplicates together before clustering
+const PRECLUSTER_SIMILARITY = 0.93;
+
+export interface SpeechSegment {
+  start: number;
+  end: number;
+  embedding?: Float32Array;
+}
+
+export function assignSpeakersByPause(chunks: WordTimestamp[]): WordTimestamp[] {
+  let currentSpeaker = 1;
+  return chunks.map((chunk, i, arr) => {
+    if (i > 0 && wordStart(chunk) - wordEnd(arr[i - 1]) > SPEAKER_PAUSE_S) {
+      currentSpeaker = currentSpeaker === 1 ? 2 : 1;
+    }
+    return { ...chunk, speaker: `Speaker ${currentSpeaker}` };
+  });
+}
+
+export function buildSpeechSegments(words: WordTimestamp[]): SpeechSegment[] {
+  const segments: SpeechSegment[] = [];
+  for (const word of words) {
+    const start = wordStart(word);
+    const end = wordEnd(word);
+    const last = segments[segments.length - 1];
+    if (last && start - last.end <= SEGMENT_GAP_S && end - last.start <= SEGMENT_MAX_S) {
+      last.end = Math.max(last.end, end);
+    } else {
+      segments.push({ start, end });
+    }
+  }
+  return segments;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm) || 1;
+  return vector.map(v => v / norm);
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+interface Cluster {
+  centroid: Float32Array;
+  weight: number;
+  members: number[];
+}
+
+function mergeInto(target: Cluster, source: Cluster) {
+  const total = target.weight + source.weight;
+  target.centroid = normalize(target.centroid.map((v, i) => (v * target.weight + source.centroid[i] * source.weight) / total));
+  target.weight = total;
+  target.members.push(...source.members);
+}
+
+// Two-stage clustering: an online pass folds near-identical segments together, then
+// agglomerative average linkage merges clusters until they stop looking like the same
+// voice or until the requested speaker count is reached. The pairwise similarities are kept in a
+// matrix and updated with the Lance-Williams rule after each merge, and every row remembers its
+// most similar partner, so a long recording costs about O(n²) rather than O(n³·d).
+export function clusterEmbeddings(embeddings: Float32Array[], numSpeakers?: number): number[] {
+  const clusters: Cluster[] = [];
+  embeddings.forEach((embedding, index) => {
+    const vector = normalize(embedding);
+    let best: Cluster | null = null;
+    let bestSimilarity = -1;
+    for (const cluster of clusters) {
+      const similarity = dot(cluster.centroid, vector);
+      if (similarity > bestSimilarity) {
+        best = cluster;
+        bestSimilarity = similarity;
+      }
+    }
+    const single: Cluster = { centroid: vector, weight: 1, members: [index] };
+    if (best && bestSimilarity >= PRECLUSTER_SIMILARITY) mergeInto(best, single);
+    else clusters.push(single);
+  });
+
+  const n = clusters.length;
+  const similarity = clusters.map(a => Float32Array.from(clusters, b => dot(a.centroid, b.centroid)));
+  const alive = new Array<boolean>(n).fill(true);
+  const partnerOf = (i: number) => {
+    let best = -1;
+    for (let j = 0; j < n; j++) {
+      if (j !== i && alive[j] && (best < 0 || similarity[i][j] > similarity[i][best])) best = j;
+    }
+    return best;
+  };
+  const partner = clusters.map((_, i) => partnerOf(i));
+  let count = n;
+
+  while (count > 1) {
+    let i = -1;
+    for (let k = 0; k < n; k++) {
+      if (alive[k] && (i < 0 || similarity[k][partner[k]] > similarity[i][partner[i]])) i = k;
+    }
+    const j = partner[i];
+    const reachedCount = numSpeakers ? count <= numSpeakers : similarity[i][j] < SAME_SPEAKER_SIMILARITY;
+    if (reachedCount) break;
+
+    // Fold j into i: the merged cluster's similarity to k is the weighted mean of i's and j's
+    const wi = clusters[i].weight;
+    const wj = clusters[j].weight;
+    for (let k = 0; k < n; k++) {
+      if (!alive[k] || k === i || k === j) continue;
+      similarity[i][k] = similarity[k][i] = (wi * similarity[i][k] + wj * similarity[j][k]) / (wi + wj);
+    }
+    clusters[i].weight = wi + wj;
+    clusters[i].members.push(...clusters[j].members);
+    alive[j] = false;
+    count--;
+
+    for (let k = 0; k < n; k++) {
+      if (!alive[k]) continue;
+      if (k === i || partner[k] === i || partner[k] === j) partner[k] = partnerOf(k);
+      else if (similarity[k][i] > similarity[k][partner[k]]) partner[k] = i;
+    }
+  }
+
+  const labels = new Array<number>(embeddings.length).fill(0);
+  clusters.filter((_, c) => alive[c]).forEach((cluster, c) => cluster.members.forEach(m => { labels[m] = c; }));
+  return labels;
+}
+
+// Label each segment, fill in segments too short to embed from their nearest labelled
+// neighbour, then give every word the speaker of the segment it overlaps most.
+export function assignSpeakersFromSegments(
+  words: WordTimestamp[],
+  segments: SpeechSegment[],
+  numSpeakers?: number
+): WordTimestamp[] {
+  const embedded = segments.map((segment, i) => ({ segment, i })).filter(s => s.segment.embedding);
+  if (embedded.length === 0) return assignSpeakersByPause(words);
+
+  const clusterIds = clusterEmbeddings(embedded.map(s => s.segment.embedding!), numSpeakers);
+  const segmentCluster = new Array<number | null>(segments.length).fill(null);
+  embedded.forEach((s, k) => { segmentCluster[s.i] = clusterIds[k]; });
+
+  segments.forEach((segment, i) => {
+    if (segmentCluster[i] !== null) return;
+    let nearest: number | null = null;
+    let distance = Infinity;
+    embedded.forEach(s => {
+      const d = Math.abs((s.segment.start + s.segment.end) / 2 - (segment.start + segment.end) / 2);
+      if (d < distance) {
+        distance = d;
+        nearest = segmentCluster[s.i];
+      }
+    });
+    segmentCluster[i] = nearest;
+  });
+
+  // Number speakers in order of first appearance
+  const speakerNames = new Map<number, string>();
+  let segmentIndex = 0;
+  return words.map(word => {
+    const start = wordStart(word);
+    const end = wordEnd(word);
+    while (segmentIndex < segments.length - 1 && segments[segmentIndex].end <= start) segmentIndex++;
+
+    let best = segmentIndex;
+    let bestOverlap = -Infinity;
+    for (let i = Math.max(0, segmentIndex - 1); i < Math.min(segments.length, segmentIndex + 2); i++) {
+      const overlap = Math.min(end, segments[i].end) - Math.max(start, segments[i].start);
+      if (overlap > bestOverlap) {
+        best = i;
+        bestOverlap = overlap;
+      }
+    }
+
+    const cluster = segmentCluster[best] ?? 0;
+    if (!speakerNames.has(cluster)) speakerNames.set(cluster, `Speaker ${speakerNames.size + 1}`);
+    return { ...word, speaker: speakerNames.get(cluster) };
+  });
+}
@@ -0,0 +1,10 @@
+// Trigger a browser download for generated text or binary content
+export function downloadFile(content: BlobPart, filename: string, type = 'text/plain') {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,240 @@
+import type { TranscriptionOutput, WordTimestamp } from '../types';
+import { CueOptions, DEFAULT_CUE_OPTIONS, SubtitleCue, buildCues, buildTrackCues, cuesToSRT, cuesToVTT, labelledLines } from './subtitles';
+import { wordText, wordStart, wordEnd, joinWords } from './transcript';
+
+export interface ExportOptions {
+  cueOptions: CueOptions;
+}
+
+export interface Exporter {
+  id: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  export: (transcription: TranscriptionOutput, options: ExportOptions) => string;
+}
+
+interface Paragraph {
+  speaker?: string;
+  start: number;
+  end: number;
+  words: WordTimestamp[];
+}
+
+const PARAGRAPH_GAP_S = 2;
+
+// Split the transcript into paragraphs at speaker turns and long pauses
+function buildParagraphs(chunks: WordTimestamp[]): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  chunks.forEach((chunk, i) => {
+    const current = paragraphs[paragraphs.length - 1];
+    const prev = chunks[i - 1];
+    const newTurn = !current || chunk.speaker !== current.speaker || wordStart(chunk) - wordEnd(prev) > PARAGRAPH_GAP_S;
+    if (newTurn) {
+      paragraphs.push({ speaker: chunk.speaker, start: wordStart(chunk), end: wordEnd(chunk), words: [chunk] });
+    } else {
+      current.words.push(chunk);
+      current.end = wordEnd(chunk);
+    }
+  });
+  return paragraphs;
+}
+
+// MM:SS, or H:MM:SS once the media passes an hour
+function formatClock(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  const mmss = `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+}
+
+// H:MM:SS.cc as used by ASS/SSA
+function formatAssTime(seconds: number): string {
+  const cs = Math.max(0, Math.round(seconds * 100));
+  const h = Math.floor(cs / 360000);
+  const m = Math.floor((cs % 360000) / 6000);
+  const s = Math.floor((cs % 6000) / 100);
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(cs % 100).padStart(2, '0')}`;
+}
+
+function delimited(transcription: TranscriptionOutput, separator: string): string {
+  const escape = (value: string) => {
+    if (separator === '\t') return value.replace(/[\t\n]/g, ' ');
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+  const rows = [['word', 'start', 'end', 'speaker'].join(separator)];
+  transcription.chunks.forEach(chunk => {
+    rows.push([
+      escape(wordText(chunk).trim()),
+      wordStart(chunk).toFixed(3),
+      wordEnd(chunk).toFixed(3),
+      escape(chunk.speaker ?? ''),
+    ].join(separator));
+  });
+  return rows.join('\n') + '\n';
+}
+
+// One karaoke Dialogue line per cue, with a \k tag (centiseconds) for each word
+function assKaraokeLine(cue: SubtitleCue): string {
+  const words = cue.words.filter(word => wordText(word).trim());
+  // Re-insert the line breaks chosen by the cue builder
+  const breaks = new Set<number>();
+  let count = 0;
+  cue.lines.slice(0, -1).forEach(line => {
+    count += line.split(' ').length;
+    breaks.add(count);
+  });
+
+  const text = words.map((word, i) => {
+    const next = words[i + 1];
+    const until = next ? wordStart(next) : cue.end;
+    const duration = Math.max(0, Math.round((until - wordStart(word)) * 100));
+    const token = `{\\k${duration}}${wordText(word).trim().replace(/[{}]/g, '')}`;
+    return i === 0 ? token : (breaks.has(i) ? '\\N' : ' ') + token;
+  }).join('');
+
+  return `Dialogue: 0,${formatAssTime(cue.start)},${formatAssTime(cue.end)},Default,${cue.speaker ?? ''},0,0,0,,${text}`;
+}
+
+const srtExporter: Exporter = {
+  id: 'srt',
+  label: 'SubRip (SRT)',
+  extension: 'srt',
+  mimeType: 'application/x-subrip',
+  export: (t, { cueOptions }) => cuesToSRT(buildTrackCues(t, cueOptions), cueOptions.speakerLabels),
+};
+
+const vttExporter: Exporter = {
+  id: 'vtt',
+  label: 'WebVTT',
+  extension: 'vtt',
+  mimeType: 'text/vtt',
+  export: (t, { cueOptions }) => cuesToVTT(buildTrackCues(t, cueOptions), cueOptions.speakerLabels),
+};
+
+const jsonExporter: Exporter = {
+  id: 'json',
+  label: 'JSON',
+  extension: 'json',
+  mimeType: 'application/json',
+  export: (t) => JSON.stringify(t, null, 2),
+};
+
+const txtExporter: Exporter = {
+  id: 'txt',
+  label: 'Plain Text',
+  extension: 'txt',
+  mimeType: 'text/plain',
+  export: (t) => {
+    let lastSpeaker: string | undefined;
+    return buildParagraphs(t.chunks).map(p => {
+      const heading = p.speaker && p.speaker !== lastSpeaker ? `${p.speaker}:\n` : '';
+      lastSpeaker = p.speaker;
+      return heading + joinWords(p.words);
+    }).join('\n\n') + '\n';
+  },
+};
+
+const markdownExporter: Exporter = {
+  id: 'md',
+  label: 'Markdown',
+  extension: 'md',
+  mimeType: 'text/markdown',
+  export: (t) => {
+    let lastSpeaker: string | undefined;
+    const body = buildParagraphs(t.chunks).map(p => {
+      const heading = p.speaker && p.speaker !== lastSpeaker ? `### ${p.speaker}\n\n` : '';
+      lastSpeaker = p.speaker;
+      return `${heading}**[${formatClock(p.start)}]** ${joinWords(p.words)}`;
+    }).join('\n\n');
+    return `# Transcript\n\n${body}\n`;
+  },
+};
+
+const csvExporter: Exporter = {
+  id: 'csv',
+  label: 'CSV (words)',
+  extension: 'csv',
+  mimeType: 'text/csv',
+  export: (t) => delimited(t, ','),
+};
+
+const tsvExporter: Exporter = {
+  id: 'tsv',
+  label: 'TSV (words)',
+  extension: 'tsv',
+  mimeType: 'text/tab-separated-values',
+  export: (t) => delimited(t, '\t'),
+};
+
+const assExporter: Exporter = {
+  id: 'ass',
+  label: 'ASS Karaoke',
+  extension: 'ass',
+  mimeType: 'text/x-ssa',
+  export: (t, { cueOptions }) => [
+    '[Script Info]',
+    'Title: Transcript',
+    'ScriptType: v4.00+',
+    'PlayResX: 1920',
+    'PlayResY: 1080',
+    'WrapStyle: 0',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    'Style: Default,Arial,64,&H00FFFFFF,&H00808080,&H00000000,&H80000000,-1,0,0,0,100,100,0,0,1,3,0,2,60,60,60,1',
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...buildCues(t.chunks, cueOptions).map(assKaraokeLine),
+    '',
+  ].join('\n'),
+};
+
+const audacityExporter: Exporter = {
+  id: 'audacity',
+  label: 'Audacity Labels',
+  extension: 'labels.txt',
+  mimeType: 'text/plain',
+  export: (t, { cueOptions }) => {
+    const cues = buildCues(t.chunks, cueOptions);
+    const lines = cueOptions.speakerLabels ? labelledLines(cues) : cues.map(cue => cue.lines);
+    return cues
+      .map((cue, i) => `${cue.start.toFixed(6)}\t${cue.end.toFixed(6)}\t${lines[i].join(' ')}`)
+      .join('\n') + '\n';
+  },
+};
+
+const registry = new Map<string, Exporter>();
+
+export function registerExporter(exporter: Exporter) {
+  registry.set(exporter.id, exporter);
+}
+
+export function getExporter(id: string): Exporter | undefined {
+  return registry.get(id);
+}
+
+export function listExporters(): Exporter[] {
+  return Array.from(registry.values());
+}
+
+export function runExporter(id: string, transcription: TranscriptionOutput, options: Partial<ExportOptions> = {}, basename = 'transcript') {
+  const exporter = registry.get(id);
+  if (!exporter) throw new Error(`Unknown export format: ${id}`);
+  const content = exporter.export(transcription, { cueOptions: DEFAULT_CUE_OPTIONS, ...options });
+  return { content, filename: `${basename}.${exporter.extension}`, mimeType: exporter.mimeType };
+}
+
+[
+  srtExporter,
+  vttExporter,
+  jsonExporter,
+  txtExporter,
+  markdownExporter,
+  csvExporter,
+  tsvExporter,
+  assExporter,
+  audacityExporter,
+].forEach(registerExporter);
@@ -0,0 +1,111 @@
+import type { TranscriptionOutput } from '../types';
+import { buildPattern, joinWordText, wordAt } from './search';
+import { replaceRange, withChunks } from './transcriptEditor';
+import { wordText } from './transcript';
+
+// Find-and-replace rules run over the word chunks once inference is done, for names and jargon
+// Whisper keeps getting wrong. Rules are kept in localStorage and shared by every project.
+
+export interface GlossaryRule {
+  id: string;
+  find: string;
+  replace: string;
+  // Literal rules match whole words, ignoring case
+  regex: boolean;
+  // Carry the matched text's casing (ALL CAPS, Capitalized) over to the replacement
+  preserveCase: boolean;
+  enabled: boolean;
+}
+
+const STORAGE_KEY = 'glossaryRules';
+
+export function loadGlossary(): GlossaryRule[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+export function saveGlossary(rules: GlossaryRule[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+}
+
+export function createRule(find = '', replace = ''): GlossaryRule {
+  return { id: crypto.randomUUID(), find, replace, regex: false, preserveCase: true, enabled: true };
+}
+
+// Error message for a rule that cannot be compiled, if any
+export function ruleError(rule: GlossaryRule): string | null {
+  try {
+    buildPattern(rule.find, { matchCase: false, wholeWord: !rule.regex, regex: rule.regex });
+    return null;
+  } catch (err: any) {
+    return err.message;
+  }
+}
+
+function matchCase(matched: string, replacement: string): string {
+  const letters = matched.replace(/[^\p{L}]/gu, '');
+  if (!letters) return replacement;
+  if (letters.length > 1 && letters === letters.toUpperCase()) return replacement.toUpperCase();
+  if (letters[0] === letters[0].toUpperCase() && letters[0] !== letters[0].toLowerCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+function applyRule(transcription: TranscriptionOutput, rule: GlossaryRule): { transcription: TranscriptionOutput, count: number } {
+  const pattern = buildPattern(rule.find, { matchCase: false, wholeWord: !rule.regex, regex: rule.regex });
+  const joined = joinWordText(transcription.chunks);
+  const matches = [...joined.text.matchAll(pattern)].filter(match => match[0].length > 0);
+
+  // Back to front so earlier word indices stay valid
+  let result = transcription;
+  let count = 0;
+  for (const match of matches.reverse()) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    const first = wordAt(joined, start);
+    const last = wordAt(joined, end - 1) + 1;
+
+    // Keep whatever the first and last words hold outside the match, e.g. trailing punctuation
+    const before = joined.text.slice(joined.offsets[first], start);
+    const lastWord = wordText(transcription.chunks[last - 1]).trim();
+    const after = joined.text.slice(end, joined.offsets[last - 1] + lastWord.length);
+    let replacement = rule.regex ? match[0].replace(new RegExp(pattern.source, pattern.flags.replace('g', '')), rule.replace) : rule.replace;
+    if (rule.preserveCase) replacement = matchCase(match[0], replacement);
+    const text = `${before}${replacement}${after}`;
+    if (text === joined.text.slice(joined.offsets[first], end + after.length)) continue;
+    count++;
+
+    const parts = text.trim().split(/\s+/).filter(Boolean);
+    if (parts.length === last - first) {
+      // Same number of words in and out: keep each word's timing, speaker and score
+      const chunks = [...result.chunks];
+      parts.forEach((part, i) => {
+        const chunk = { ...chunks[first + i], text: ` ${part}` };
+        delete chunk.word;
+        chunks[first + i] = chunk;
+      });
+      result = withChunks(result, chunks);
+    } else {
+      result = replaceRange(result, first, last, text);
+    }
+  }
+  return { transcription: result, count };
+}
+
+// Applies enabled rules in order; rules that fail to compile are skipped
+export function applyGlossary(transcription: TranscriptionOutput, rules: GlossaryRule[]): { transcription: TranscriptionOutput, count: number } {
+  let result = transcription;
+  let count = 0;
+  for (const rule of rules) {
+    if (!rule.enabled || !rule.find.trim() || ruleError(rule)) continue;
+    const applied = applyRule(result, rule);
+    result = applied.transcription;
+    count += applied.count;
+  }
+  return { transcription: result, count };
+}
@@ -0,0 +1,127 @@
+import type { TranscriptionOutput, WordTimestamp } from '../types';
+import { joinWords } from './transcript';
+
+interface ParsedCue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+// Accepts SRT (00:00:01,500), VTT (00:00:01.500) and short VTT (01.500 / 00:01.500) timestamps
+function parseTimestamp(value: string): number {
+  const parts = value.trim().replace(',', '.').split(':');
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+const TIMING_LINE = /^\s*((?:(?:\d+:)?\d{1,2}:)?\d{1,2}[.,]\d{1,3})\s*-->\s*((?:(?:\d+:)?\d{1,2}:)?\d{1,2}[.,]\d{1,3})/;
+
+// Shared by SRT and VTT: both are blank-line separated blocks with a `start --> end` line
+function parseCueBlocks(content: string): ParsedCue[] {
+  const cues: ParsedCue[] = [];
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+    let text = lines.slice(timingIndex + 1).join(' ').trim();
+    let speaker: string | undefined;
+
+    // WebVTT voice spans: <v Speaker 1>Hello
+    const voice = text.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+    if (voice) speaker = voice[1].trim();
+    text = text.replace(/<[^>]+>/g, '').replace(/\{[^}]*\}/g, '').replace(/\s+/g, ' ').trim();
+
+    if (text) cues.push({ start: parseTimestamp(start), end: parseTimestamp(end), text, speaker });
+  }
+  return cues;
+}
+
+// "Speaker 2: so what we found", as the SRT exporter labels each turn. Up to three capitalised or
+// numbered words, so an ordinary sentence with a colon in it keeps its text.
+const SPEAKER_PREFIX = /^((?:\p{Lu}[\p{L}'’.-]*|\d+)(?: (?:\p{Lu}[\p{L}'’.-]*|\d+)){0,2}):\s+(.+)$/u;
+
+// SRT has no voice spans, so a leading "Name:" names the speaker. Labels only mark turns, so the
+// cues after one keep its speaker until the next label.
+function parseSpeakerPrefixes(cues: ParsedCue[]): ParsedCue[] {
+  let speaker: string | undefined;
+  return cues.map(cue => {
+    const label = cue.speaker ? null : cue.text.match(SPEAKER_PREFIX);
+    if (label) speaker = label[1];
+    else if (cue.speaker) speaker = cue.speaker;
+    return { ...cue, text: label ? label[2] : cue.text, speaker };
+  });
+}
+
+// Subtitle cues carry no word timings, so spread each cue's duration over its words by length
+function cuesToChunks(cues: ParsedCue[]): WordTimestamp[] {
+  const chunks: WordTimestamp[] = [];
+  cues.forEach(cue => {
+    const words = cue.text.split(' ');
+    const totalChars = words.reduce((sum, w) => sum + w.length, 0) || 1;
+    const duration = Math.max(0, cue.end - cue.start);
+    let cursor = cue.start;
+    words.forEach(word => {
+      const length = duration * (word.length / totalChars);
+      chunks.push({
+        text: ` ${word}`,
+        timestamp: [cursor, cursor + length],
+        ...(cue.speaker ? { speaker: cue.speaker } : {})
+      });
+      cursor += length;
+    });
+  });
+  return chunks;
+}
+
+export function parseSRT(content: string): TranscriptionOutput {
+  const chunks = cuesToChunks(parseSpeakerPrefixes(parseCueBlocks(content)));
+  return { text: joinWords(chunks), chunks };
+}
+
+export function parseVTT(content: string): TranscriptionOutput {
+  if (!content.trimStart().startsWith('WEBVTT')) {
+    throw new Error('Not a WebVTT file: missing WEBVTT header.');
+  }
+  // Drop NOTE / STYLE / REGION blocks before reading cues
+  const body = content.replace(/\r\n?/g, '\n').split(/\n{2,}/)
+    .filter(block => !/^(NOTE|STYLE|REGION)\b/.test(block.trim()))
+    .join('\n\n');
+  const chunks = cuesToChunks(parseCueBlocks(body));
+  return { text: joinWords(chunks), chunks };
+}
+
+export function parseTranscriptJSON(content: string): TranscriptionOutput {
+  const data = JSON.parse(content);
+  if (!data || !Array.isArray(data.chunks)) {
+    throw new Error('JSON transcript must contain a "chunks" array.');
+  }
+  const chunks: WordTimestamp[] = data.chunks.map((chunk: any) => {
+    const start = chunk.timestamp?.[0] ?? chunk.start;
+    const end = chunk.timestamp?.[1] ?? chunk.end;
+    if (typeof start !== 'number') {
+      throw new Error('Every JSON chunk needs a numeric start time.');
+    }
+    return { ...chunk, timestamp: [start, typeof end === 'number' ? end : start] };
+  });
+  return { ...data, text: typeof data.text === 'string' ? data.text : joinWords(chunks), chunks };
+}
+
+export async function importTranscript(file: File): Promise<TranscriptionOutput> {
+  const content = await file.text();
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  let output: TranscriptionOutput;
+  if (extension === 'json') output = parseTranscriptJSON(content);
+  else if (extension === 'vtt') output = parseVTT(content);
+  else if (extension === 'srt') output = parseSRT(content);
+  else throw new Error('Unsupported transcript format. Please use SRT, VTT or JSON.');
+
+  if (output.chunks.length === 0) {
+    throw new Error(`No transcript entries found in ${file.name}.`);
+  }
+  return output;
+}
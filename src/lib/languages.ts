@@ -0,0 +1,123 @@
+import type { DetectedLanguage } from '../types';
+
+// Every language Whisper can transcribe, in the tokenizer's order. `name` is what the pipeline's
+// `language` option expects; `code` matches the <|xx|> token used for language identification.
+export interface WhisperLanguage {
+  code: string;
+  name: string;
+  label: string;
+}
+
+export const AUTO_DETECT = 'auto';
+
+export const WHISPER_LANGUAGES: WhisperLanguage[] = [
+  { code: 'en', name: 'english', label: 'English' },
+  { code: 'zh', name: 'chinese', label: 'Chinese' },
+  { code: 'de', name: 'german', label: 'German' },
+  { code: 'es', name: 'spanish', label: 'Spanish' },
+  { code: 'ru', name: 'russian', label: 'Russian' },
+  { code: 'ko', name: 'korean', label: 'Korean' },
+  { code: 'fr', name: 'french', label: 'French' },
+  { code: 'ja', name: 'japanese', label: 'Japanese' },
+  { code: 'pt', name: 'portuguese', label: 'Portuguese' },
+  { code: 'tr', name: 'turkish', label: 'Turkish' },
+  { code: 'pl', name: 'polish', label: 'Polish' },
+  { code: 'ca', name: 'catalan', label: 'Catalan' },
+  { code: 'nl', name: 'dutch', label: 'Dutch' },
+  { code: 'ar', name: 'arabic', label: 'Arabic' },
+  { code: 'sv', name: 'swedish', label: 'Swedish' },
+  { code: 'it', name: 'italian', label: 'Italian' },
+  { code: 'id', name: 'indonesian', label: 'Indonesian' },
+  { code: 'hi', name: 'hindi', label: 'Hindi' },
+  { code: 'fi', name: 'finnish', label: 'Finnish' },
+  { code: 'vi', name: 'vietnamese', label: 'Vietnamese' },
+  { code: 'he', name: 'hebrew', label: 'Hebrew' },
+  { code: 'uk', name: 'ukrainian', label: 'Ukrainian' },
+  { code: 'el', name: 'greek', label: 'Greek' },
+  { code: 'ms', name: 'malay', label: 'Malay' },
+  { code: 'cs', name: 'czech', label: 'Czech' },
+  { code: 'ro', name: 'romanian', label: 'Romanian' },
+  { code: 'da', name: 'danish', label: 'Danish' },
+  { code: 'hu', name: 'hungarian', label: 'Hungarian' },
+  { code: 'ta', name: 'tamil', label: 'Tamil' },
+  { code: 'no', name: 'norwegian', label: 'Norwegian' },
+  { code: 'th', name: 'thai', label: 'Thai' },
+  { code: 'ur', name: 'urdu', label: 'Urdu' },
+  { code: 'hr', name: 'croatian', label: 'Croatian' },
+  { code: 'bg', name: 'bulgarian', label: 'Bulgarian' },
+  { code: 'lt', name: 'lithuanian', label: 'Lithuanian' },
+  { code: 'la', name: 'latin', label: 'Latin' },
+  { code: 'mi', name: 'maori', label: 'Maori' },
+  { code: 'ml', name: 'malayalam', label: 'Malayalam' },
+  { code: 'cy', name: 'welsh', label: 'Welsh' },
+  { code: 'sk', name: 'slovak', label: 'Slovak' },
+  { code: 'te', name: 'telugu', label: 'Telugu' },
+  { code: 'fa', name: 'persian', label: 'Persian' },
+  { code: 'lv', name: 'latvian', label: 'Latvian' },
+  { code: 'bn', name: 'bengali', label: 'Bengali' },
+  { code: 'sr', name: 'serbian', label: 'Serbian' },
+  { code: 'az', name: 'azerbaijani', label: 'Azerbaijani' },
+  { code: 'sl', name: 'slovenian', label: 'Slovenian' },
+  { code: 'kn', name: 'kannada', label: 'Kannada' },
+  { code: 'et', name: 'estonian', label: 'Estonian' },
+  { code: 'mk', name: 'macedonian', label: 'Macedonian' },
+  { code: 'br', name: 'breton', label: 'Breton' },
+  { code: 'eu', name: 'basque', label: 'Basque' },
+  { code: 'is', name: 'icelandic', label: 'Icelandic' },
+  { code: 'hy', name: 'armenian', label: 'Armenian' },
+  { code: 'ne', name: 'nepali', label: 'Nepali' },
+  { code: 'mn', name: 'mongolian', label: 'Mongolian' },
+  { code: 'bs', name: 'bosnian', label: 'Bosnian' },
+  { code: 'kk', name: 'kazakh', label: 'Kazakh' },
+  { code: 'sq', name: 'albanian', label: 'Albanian' },
+  { code: 'sw', name: 'swahili', label: 'Swahili' },
+  { code: 'gl', name: 'galician', label: 'Galician' },
+  { code: 'mr', name: 'marathi', label: 'Marathi' },
+  { code: 'pa', name: 'punjabi', label: 'Punjabi' },
+  { code: 'si', name: 'sinhala', label: 'Sinhala' },
+  { code: 'km', name: 'khmer', label: 'Khmer' },
+  { code: 'sn', name: 'shona', label: 'Shona' },
+  { code: 'yo', name: 'yoruba', label: 'Yoruba' },
+  { code: 'so', name: 'somali', label: 'Somali' },
+  { code: 'af', name: 'afrikaans', label: 'Afrikaans' },
+  { code: 'oc', name: 'occitan', label: 'Occitan' },
+  { code: 'ka', name: 'georgian', label: 'Georgian' },
+  { code: 'be', name: 'belarusian', label: 'Belarusian' },
+  { code: 'tg', name: 'tajik', label: 'Tajik' },
+  { code: 'sd', name: 'sindhi', label: 'Sindhi' },
+  { code: 'gu', name: 'gujarati', label: 'Gujarati' },
+  { code: 'am', name: 'amharic', label: 'Amharic' },
+  { code: 'yi', name: 'yiddish', label: 'Yiddish' },
+  { code: 'lo', name: 'lao', label: 'Lao' },
+  { code: 'uz', name: 'uzbek', label: 'Uzbek' },
+  { code: 'fo', name: 'faroese', label: 'Faroese' },
+  { code: 'ht', name: 'haitian creole', label: 'Haitian Creole' },
+  { code: 'ps', name: 'pashto', label: 'Pashto' },
+  { code: 'tk', name: 'turkmen', label: 'Turkmen' },
+  { code: 'nn', name: 'nynorsk', label: 'Nynorsk' },
+  { code: 'mt', name: 'maltese', label: 'Maltese' },
+  { code: 'sa', name: 'sanskrit', label: 'Sanskrit' },
+  { code: 'lb', name: 'luxembourgish', label: 'Luxembourgish' },
+  { code: 'my', name: 'myanmar', label: 'Myanmar' },
+  { code: 'bo', name: 'tibetan', label: 'Tibetan' },
+  { code: 'tl', name: 'tagalog', label: 'Tagalog' },
+  { code: 'mg', name: 'malagasy', label: 'Malagasy' },
+  { code: 'as', name: 'assamese', label: 'Assamese' },
+  { code: 'tt', name: 'tatar', label: 'Tatar' },
+  { code: 'haw', name: 'hawaiian', label: 'Hawaiian' },
+  { code: 'ln', name: 'lingala', label: 'Lingala' },
+  { code: 'ha', name: 'hausa', label: 'Hausa' },
+  { code: 'ba', name: 'bashkir', label: 'Bashkir' },
+  { code: 'jw', name: 'javanese', label: 'Javanese' },
+  { code: 'su', name: 'sundanese', label: 'Sundanese' },
+];
+
+export function findLanguage(nameOrCode: string): WhisperLanguage | undefined {
+  const key = nameOrCode.toLowerCase();
+  return WHISPER_LANGUAGES.find(l => l.name === key || l.code === key);
+}
+
+export function describeDetectedLanguage(detected: DetectedLanguage): string {
+  const label = findLanguage(detected.code)?.label ?? detected.name;
+  return `${label} (${Math.round(detected.probability * 100)}%)`;
+}
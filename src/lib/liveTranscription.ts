@@ -0,0 +1,136 @@
+import { Resampler, SAMPLING_RATE } from './audio';
+import type { TranscriptionSettings } from './transcriptionStream';
+
+// Smallest amount of new audio worth a fresh live pass
+const MIN_SEND_S = 1;
+
+// Downmixes the microphone to mono inside the audio thread, posting roughly quarter-second batches
+// at the context's own rate; they are brought to 16 kHz with the same low-passed resampler file
+// decoding uses. Loaded from a Blob URL so no extra build step is needed.
+const CAPTURE_PROCESSOR = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.batch = [];
+  }
+  process(inputs) {
+    const input = inputs[0];
+    if (input && input.length > 0) {
+      for (let i = 0; i < input[0].length; i++) {
+        let sum = 0;
+        for (let c = 0; c < input.length; c++) sum += input[c][i];
+        this.batch.push(sum / input.length);
+      }
+      if (this.batch.length >= sampleRate / 4) {
+        this.port.postMessage(new Float32Array(this.batch));
+        this.batch = [];
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+export interface LiveSession {
+  // Stops capture, lets the worker finish the tail and resolves with the recorded file
+  stop: () => Promise<File>;
+}
+
+// Streams microphone audio to the worker for live transcription. Like file streaming, the worker
+// pulls audio with `need-audio`; whatever has been captured since the last pass is sent in one
+// piece, so a slow model simply gets larger steps instead of a growing backlog of passes.
+export async function startLiveTranscription(worker: Worker, settings: TranscriptionSettings): Promise<LiveSession> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  let context: AudioContext | undefined;
+  let started = false;
+  try {
+    // Keep a normal recording alongside so the finished transcript has media to play back
+    const recorder = new MediaRecorder(stream);
+    const recorded: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) recorded.push(e.data);
+    };
+
+    context = new AudioContext();
+    const moduleUrl = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR], { type: 'application/javascript' }));
+    await context.audioWorklet.addModule(moduleUrl);
+    URL.revokeObjectURL(moduleUrl);
+    const source = context.createMediaStreamSource(stream);
+    const capture = new AudioWorkletNode(context, 'pcm-capture');
+    const resampler = new Resampler(context.sampleRate, SAMPLING_RATE);
+
+    let pending: Float32Array[] = [];
+    let pendingLength = 0;
+    let waiting = false;
+    let stopping = false;
+
+    const push = (audio: Float32Array) => {
+      pending.push(audio);
+      pendingLength += audio.length;
+    };
+
+    const send = (isLast: boolean) => {
+      const audio = new Float32Array(pendingLength);
+      let offset = 0;
+      for (const piece of pending) {
+        audio.set(piece, offset);
+        offset += piece.length;
+      }
+      pending = [];
+      pendingLength = 0;
+      waiting = false;
+      worker.postMessage({ type: 'audio', audio, isLast }, [audio.buffer]);
+    };
+
+    capture.port.onmessage = (event: MessageEvent<Float32Array>) => {
+      if (stopping) return;
+      push(resampler.process(event.data));
+      if (waiting && pendingLength >= MIN_SEND_S * SAMPLING_RATE) send(false);
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      const data = event.data;
+      if (data.jobId) return;
+      if (data.status === 'need-audio') {
+        if (stopping) send(true);
+        else if (pendingLength >= MIN_SEND_S * SAMPLING_RATE) send(false);
+        else waiting = true;
+      } else if (data.status === 'complete' || data.status === 'error') {
+        worker.removeEventListener('message', onMessage);
+      }
+    };
+
+    source.connect(capture);
+    // The processor writes silence; the connection only keeps the graph pulling it
+    capture.connect(context.destination);
+    recorder.start();
+    worker.addEventListener('message', onMessage);
+    worker.postMessage({ type: 'start', ...settings, duration: 0, live: true });
+    started = true;
+
+    return {
+      stop: () => new Promise<File>((resolve) => {
+        stopping = true;
+        source.disconnect();
+        context?.close();
+        push(resampler.flush());
+        if (waiting) send(true);
+
+        recorder.onstop = () => {
+          stream.getTracks().forEach(track => track.stop());
+          const type = recorder.mimeType || 'audio/webm';
+          const extension = type.includes('mp4') ? 'm4a' : type.includes('ogg') ? 'ogg' : 'webm';
+          resolve(new File([new Blob(recorded, { type })], `live_recording.${extension}`, { type }));
+        };
+        recorder.stop();
+      }),
+    };
+  } finally {
+    // A failed setup must not leave the microphone (and the browser's recording indicator) on
+    if (!started) {
+      stream.getTracks().forEach(track => track.stop());
+      context?.close();
+    }
+  }
+}
@@ -0,0 +1,128 @@
+// Reads the Cache Storage bucket transformers.js downloads model files into, so the UI can
+// show what is really on disk instead of what it remembers loading.
+
+import type { ModelDtype, ModelEntry } from './modelRegistry';
+
+// Name transformers.js opens in `getModelFile` (not exposed through `env`)
+export const MODEL_CACHE_NAME = 'transformers-cache';
+const LAST_USED_KEY = 'modelLastUsed';
+
+export interface CachedFile {
+  url: string;
+  // Path within the model repo, e.g. "onnx/encoder_model_quantized.onnx"
+  path: string;
+  size: number;
+}
+
+export interface CachedModel {
+  id: string;
+  files: CachedFile[];
+  size: number;
+  // Last time the model finished loading, or when its newest file was downloaded
+  lastUsed: number | null;
+}
+
+// File suffixes transformers.js appends for each precision
+const DTYPE_SUFFIX: Record<ModelDtype, string> = { fp32: '', fp16: '_fp16', q8: '_quantized', q4: '_q4' };
+
+// Ready means the encoder and decoder weights at the entry's chosen precision are both cached
+export function isModelCached(entry: ModelEntry, cached: CachedModel[]): boolean {
+  const model = cached.find(m => m.id === entry.id);
+  if (!model) return false;
+  const required = [
+    `onnx/encoder_model${DTYPE_SUFFIX[entry.dtype.encoder]}.onnx`,
+    `onnx/decoder_model_merged${DTYPE_SUFFIX[entry.dtype.decoder]}.onnx`,
+  ];
+  return required.every(path => model.files.some(file => file.path === path));
+}
+
+export function isCacheAvailable(): boolean {
+  return typeof caches !== 'undefined';
+}
+
+function loadLastUsed(): Record<string, number> {
+  try {
+    return JSON.parse(localStorage.getItem(LAST_USED_KEY) ?? '{}');
+  } catch (e) {
+    return {};
+  }
+}
+
+export function markModelUsed(id: string) {
+  localStorage.setItem(LAST_USED_KEY, JSON.stringify({ ...loadLastUsed(), [id]: Date.now() }));
+}
+
+// Hub files are keyed by their download URL (`<host>/<id>/resolve/<revision>/<path>`); local
+// files by their path under the local model directory, where ids may themselves contain slashes.
+function parseCacheKey(url: string, localModelPath: string, localIds: string[]): { id: string, path: string } | null {
+  const { pathname } = new URL(url);
+  const resolve = pathname.match(/^\/(.+?)\/resolve\/[^/]+\/(.+)$/);
+  if (resolve) return { id: decodeURIComponent(resolve[1]), path: decodeURIComponent(resolve[2]) };
+
+  const base = '/' + localModelPath.replace(/^\/+|\/+$/g, '') + '/';
+  if (!pathname.startsWith(base)) return null;
+  const rest = decodeURIComponent(pathname.slice(base.length));
+  const id = localIds
+    .filter(local => rest.startsWith(local + '/'))
+    .sort((a, b) => b.length - a.length)[0] ?? rest.split('/')[0];
+  return { id, path: rest.slice(id.length + 1) };
+}
+
+// Without a content-length the body is counted chunk by chunk, so a multi-hundred-MB weight
+// file is never held in memory just to be measured
+async function responseSize(response: Response): Promise<number> {
+  const length = Number(response.headers.get('content-length'));
+  if (length > 0) return length;
+  if (!response.body) return 0;
+  const reader = response.body.getReader();
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return size;
+    size += value.byteLength;
+  }
+}
+
+// Whether a hub model has files in the cache, checked by key alone so nothing is read
+export async function hasCachedHubModel(id: string): Promise<boolean> {
+  if (!isCacheAvailable()) return false;
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  return (await cache.keys()).some(request => parseCacheKey(request.url, '', [])?.id === id);
+}
+
+export async function listCachedModels(localModelPath = '/models/', localIds: string[] = []): Promise<CachedModel[]> {
+  if (!isCacheAvailable()) return [];
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  const lastUsed = loadLastUsed();
+  const models = new Map<string, CachedModel>();
+
+  for (const request of await cache.keys()) {
+    const parsed = parseCacheKey(request.url, localModelPath, localIds);
+    const response = await cache.match(request);
+    if (!parsed || !response) continue;
+
+    const model = models.get(parsed.id) ?? { id: parsed.id, files: [], size: 0, lastUsed: lastUsed[parsed.id] ?? null };
+    const size = await responseSize(response);
+    model.files.push({ url: request.url, path: parsed.path, size });
+    model.size += size;
+    const downloaded = Date.parse(response.headers.get('date') ?? '');
+    if (!lastUsed[parsed.id] && downloaded && downloaded > (model.lastUsed ?? 0)) model.lastUsed = downloaded;
+    models.set(parsed.id, model);
+  }
+
+  return [...models.values()]
+    .map(model => ({ ...model, files: model.files.sort((a, b) => a.path.localeCompare(b.path)) }))
+    .sort((a, b) => (b.lastUsed ?? 0) - (a.lastUsed ?? 0));
+}
+
+export async function deleteCachedModel(model: CachedModel) {
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  await Promise.all(model.files.map(file => cache.delete(file.url)));
+  const { [model.id]: _removed, ...lastUsed } = loadLastUsed();
+  localStorage.setItem(LAST_USED_KEY, JSON.stringify(lastUsed));
+}
+
+export async function clearModelCache() {
+  await caches.delete(MODEL_CACHE_NAME);
+  localStorage.removeItem(LAST_USED_KEY);
+}
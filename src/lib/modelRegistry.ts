@@ -0,0 +1,123 @@
+// Whisper checkpoints the app can load, plus the user's own Hugging Face IDs and local model
+// directories. Built-in entries ship with the app; custom entries and per-model dtype choices
+// are kept in localStorage.
+
+export type ModelDtype = 'fp32' | 'fp16' | 'q8' | 'q4';
+export type ModelSource = 'hub' | 'local';
+
+export interface ModelDtypes {
+  encoder: ModelDtype;
+  decoder: ModelDtype;
+}
+
+export interface ModelEntry {
+  id: string;
+  label: string;
+  source: ModelSource;
+  // Parameter count in millions and the share that sits in the encoder, used for size estimates
+  params: number;
+  encoderShare: number;
+  dtype: ModelDtypes;
+  builtIn?: boolean;
+}
+
+// What the worker needs to load an entry
+export interface ModelLoadOptions {
+  source: ModelSource;
+  dtype: ModelDtypes;
+  localModelPath: string;
+}
+
+export const DTYPES: ModelDtype[] = ['fp32', 'fp16', 'q8', 'q4'];
+const BYTES_PER_PARAM: Record<ModelDtype, number> = { fp32: 4, fp16: 2, q8: 1, q4: 0.5 };
+// Tokenizer, configs and generation files
+const METADATA_BYTES = 3 * 1024 * 1024;
+// ONNX Runtime keeps weights plus activations, KV cache and arena slack in memory
+const RUNTIME_OVERHEAD = 1.6;
+
+export const DEFAULT_LOCAL_MODEL_PATH = '/models/';
+
+const DEFAULT_DTYPE: ModelDtypes = { encoder: 'fp32', decoder: 'q8' };
+
+export const BUILT_IN_MODELS: ModelEntry[] = [
+  { id: 'Xenova/whisper-tiny', label: 'Tiny - Fast', source: 'hub', params: 39, encoderShare: 0.5, dtype: DEFAULT_DTYPE, builtIn: true },
+  { id: 'Xenova/whisper-base', label: 'Base - Balanced', source: 'hub', params: 74, encoderShare: 0.5, dtype: DEFAULT_DTYPE, builtIn: true },
+  { id: 'Xenova/whisper-small', label: 'Small - Accurate', source: 'hub', params: 244, encoderShare: 0.5, dtype: DEFAULT_DTYPE, builtIn: true },
+  { id: 'distil-whisper/distil-small.en', label: 'Distil Small (English)', source: 'hub', params: 166, encoderShare: 0.55, dtype: DEFAULT_DTYPE, builtIn: true },
+  { id: 'distil-whisper/distil-medium.en', label: 'Distil Medium (English)', source: 'hub', params: 394, encoderShare: 0.8, dtype: DEFAULT_DTYPE, builtIn: true },
+  // Turbo keeps the large-v3 encoder but only four decoder layers
+  { id: 'onnx-community/whisper-large-v3-turbo', label: 'Large v3 Turbo', source: 'hub', params: 809, encoderShare: 0.8, dtype: { encoder: 'fp16', decoder: 'q4' }, builtIn: true },
+];
+
+const STORAGE_KEY = 'modelRegistry';
+
+export interface ModelRegistry {
+  custom: ModelEntry[];
+  dtypes: Record<string, ModelDtypes>;
+  localModelPath: string;
+}
+
+export function loadRegistry(): ModelRegistry {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return {
+      custom: Array.isArray(stored.custom) ? stored.custom : [],
+      dtypes: stored.dtypes ?? {},
+      localModelPath: stored.localModelPath || DEFAULT_LOCAL_MODEL_PATH,
+    };
+  } catch (e) {
+    return { custom: [], dtypes: {}, localModelPath: DEFAULT_LOCAL_MODEL_PATH };
+  }
+}
+
+export function saveRegistry(registry: ModelRegistry) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(registry));
+}
+
+// Built-ins first, then custom entries, each with the user's dtype choice applied
+export function listModels(registry: ModelRegistry): ModelEntry[] {
+  return [...BUILT_IN_MODELS, ...registry.custom].map(entry => ({
+    ...entry,
+    dtype: registry.dtypes[entry.id] ?? entry.dtype,
+  }));
+}
+
+export function createCustomModel(id: string, label: string, source: ModelSource, params: number): ModelEntry {
+  return {
+    id: id.trim().replace(/^\/+|\/+$/g, ''),
+    label: label.trim() || id.trim(),
+    source,
+    params: params > 0 ? params : 74,
+    encoderShare: 0.5,
+    dtype: DEFAULT_DTYPE,
+  };
+}
+
+export function addCustomModel(registry: ModelRegistry, entry: ModelEntry): ModelRegistry {
+  if (!entry.id || BUILT_IN_MODELS.some(m => m.id === entry.id)) return registry;
+  return { ...registry, custom: [...registry.custom.filter(m => m.id !== entry.id), entry] };
+}
+
+export function removeCustomModel(registry: ModelRegistry, id: string): ModelRegistry {
+  const { [id]: _removed, ...dtypes } = registry.dtypes;
+  return { ...registry, custom: registry.custom.filter(m => m.id !== id), dtypes };
+}
+
+export function setModelDtype(registry: ModelRegistry, id: string, dtype: ModelDtypes): ModelRegistry {
+  return { ...registry, dtypes: { ...registry.dtypes, [id]: dtype } };
+}
+
+export function estimateDownloadBytes(entry: ModelEntry): number {
+  const params = entry.params * 1e6;
+  return params * entry.encoderShare * BYTES_PER_PARAM[entry.dtype.encoder]
+    + params * (1 - entry.encoderShare) * BYTES_PER_PARAM[entry.dtype.decoder]
+    + METADATA_BYTES;
+}
+
+export function estimateMemoryBytes(entry: ModelEntry): number {
+  return estimateDownloadBytes(entry) * RUNTIME_OVERHEAD;
+}
+
+export function loadOptionsFor(entry: ModelEntry, registry: ModelRegistry): ModelLoadOptions {
+  return { source: entry.source, dtype: entry.dtype, localModelPath: registry.localModelPath };
+}
@@ -0,0 +1,171 @@
+import type { WordTimestamp } from '../types';
+import { wordText, wordStart, wordEnd } from './transcript';
+
+// Transcriptionist playback: speed, auto-rewind, loops and a rebindable shortcut map
+
+export interface PlaybackSettings {
+  rate: number;
+  // Keep voices at their natural pitch when slowed down or sped up
+  preservePitch: boolean;
+  // Seconds to step back when playback resumes after a pause; 0 turns it off
+  autoRewind: number;
+  // Seconds skipped by the rewind / forward shortcuts
+  skip: number;
+}
+
+export const DEFAULT_PLAYBACK: PlaybackSettings = { rate: 1, preservePitch: true, autoRewind: 2, skip: 5 };
+export const PLAYBACK_RATES = [0.5, 0.6, 0.7, 0.75, 0.8, 0.9, 1, 1.1, 1.25, 1.5, 1.75, 2];
+
+export interface Loop {
+  start: number;
+  end: number;
+  label: string;
+}
+
+export type ShortcutAction =
+  | 'togglePlay' | 'rewind' | 'forward' | 'slower' | 'faster'
+  | 'loopWord' | 'loopSentence' | 'loopSelection' | 'stopLoop'
+  | 'prevSegment' | 'nextSegment' | 'prevTurn' | 'nextTurn';
+
+export type ShortcutMap = Record<ShortcutAction, string>;
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  togglePlay: 'Play / pause',
+  rewind: 'Rewind',
+  forward: 'Forward',
+  slower: 'Slower',
+  faster: 'Faster',
+  loopWord: 'Loop current word',
+  loopSentence: 'Loop current sentence',
+  loopSelection: 'Loop selected words',
+  stopLoop: 'Stop looping',
+  prevSegment: 'Previous segment',
+  nextSegment: 'Next segment',
+  prevTurn: 'Previous speaker turn',
+  nextTurn: 'Next speaker turn',
+};
+
+// Alt-based defaults (YouTube-style J/K/L) so they work while typing a correction
+export const DEFAULT_SHORTCUTS: ShortcutMap = {
+  togglePlay: 'Alt+K',
+  rewind: 'Alt+J',
+  forward: 'Alt+L',
+  slower: 'Alt+,',
+  faster: 'Alt+.',
+  loopWord: 'Alt+W',
+  loopSentence: 'Alt+S',
+  loopSelection: 'Alt+R',
+  stopLoop: 'Alt+X',
+  prevSegment: 'Alt+[',
+  nextSegment: 'Alt+]',
+  prevTurn: 'Alt+Shift+[',
+  nextTurn: 'Alt+Shift+]',
+};
+
+const PLAYBACK_KEY = 'playbackSettings';
+const SHORTCUTS_KEY = 'shortcuts';
+
+export function loadPlayback(): PlaybackSettings {
+  try {
+    return { ...DEFAULT_PLAYBACK, ...JSON.parse(localStorage.getItem(PLAYBACK_KEY) ?? '{}') };
+  } catch (e) {
+    return DEFAULT_PLAYBACK;
+  }
+}
+
+export function savePlayback(settings: PlaybackSettings) {
+  localStorage.setItem(PLAYBACK_KEY, JSON.stringify(settings));
+}
+
+export function loadShortcuts(): ShortcutMap {
+  try {
+    return { ...DEFAULT_SHORTCUTS, ...JSON.parse(localStorage.getItem(SHORTCUTS_KEY) ?? '{}') };
+  } catch (e) {
+    return DEFAULT_SHORTCUTS;
+  }
+}
+
+export function saveShortcuts(shortcuts: ShortcutMap) {
+  localStorage.setItem(SHORTCUTS_KEY, JSON.stringify(shortcuts));
+}
+
+const CODE_KEYS: Record<string, string> = {
+  BracketLeft: '[', BracketRight: ']', Comma: ',', Period: '.', Slash: '/', Backslash: '\\',
+  Semicolon: ';', Quote: "'", Minus: '-', Equal: '=', Backquote: '`',
+};
+const MODIFIER_CODES = ['ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight'];
+
+// "Ctrl+Alt+Shift+K"-style name of a key press, or null for a lone modifier. Built from the
+// physical key so Alt combinations on macOS (Alt+W types "∑") still match.
+export function keyCombo(e: KeyboardEvent): string | null {
+  if (MODIFIER_CODES.includes(e.code)) return null;
+  const key = e.code.startsWith('Key') ? e.code.slice(3)
+    : e.code.startsWith('Digit') ? e.code.slice(5)
+    : CODE_KEYS[e.code] ?? e.code;
+  return [e.ctrlKey && 'Ctrl', e.metaKey && 'Meta', e.altKey && 'Alt', e.shiftKey && 'Shift', key].filter(Boolean).join('+');
+}
+
+// Plain keys would swallow typing, so in text fields only Ctrl/Alt/Meta combinations and F-keys fire
+export function firesInTextField(combo: string): boolean {
+  return /(^|\+)(Ctrl|Alt|Meta)\+/.test(combo) || /(^|\+)F\d+$/.test(combo);
+}
+
+// Index of the word playing at `time`, or the last one before it
+export function wordIndexAt(chunks: WordTimestamp[], time: number): number {
+  let index = -1;
+  for (let i = 0; i < chunks.length && wordStart(chunks[i]) <= time; i++) index = i;
+  return index;
+}
+
+const endsSentence = (chunk: WordTimestamp) => /[.!?…]["')\]]*$/.test(wordText(chunk).trim());
+
+// Word index range [first, last] of the sentence containing word `index`
+export function sentenceAround(chunks: WordTimestamp[], index: number): [number, number] {
+  let first = index;
+  while (first > 0 && !endsSentence(chunks[first - 1])) first--;
+  let last = index;
+  while (last < chunks.length - 1 && !endsSentence(chunks[last])) last++;
+  return [first, last];
+}
+
+// A new segment starts at the first word, at every speaker change and after every pause this long
+const SEGMENT_PAUSE_S = 1;
+
+// Start indices of segments (pause or speaker change) or, with `turnsOnly`, of speaker turns
+export function segmentStarts(chunks: WordTimestamp[], turnsOnly = false): number[] {
+  const starts: number[] = [];
+  chunks.forEach((chunk, i) => {
+    const prev = chunks[i - 1];
+    if (!prev || chunk.speaker !== prev.speaker || (!turnsOnly && wordStart(chunk) - wordEnd(prev) >= SEGMENT_PAUSE_S)) {
+      starts.push(i);
+    }
+  });
+  return starts;
+}
+
+// Word index to jump to from `time`. Going back from inside a segment first returns to its own
+// start, unless playback only just passed it, like a media player's "previous track".
+export function adjacentStart(chunks: WordTimestamp[], starts: number[], time: number, direction: 1 | -1): number | null {
+  if (direction === 1) {
+    const next = starts.find(i => wordStart(chunks[i]) > time + 0.05);
+    return next ?? null;
+  }
+  const before = starts.filter(i => wordStart(chunks[i]) < time - 1);
+  return before.length > 0 ? before[before.length - 1] : (starts.length > 0 ? starts[0] : null);
+}
+
+// Word index range [first, last] covered by the text selection in the transcript, if any.
+// Transcript words carry a `data-word-index` attribute for this.
+export function selectedWordRange(): [number, number] | null {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed) return null;
+  const indexOf = (node: Node | null) => {
+    const element = node instanceof Element ? node : node?.parentElement;
+    const word = element?.closest('[data-word-index]');
+    return word ? Number(word.getAttribute('data-word-index')) : null;
+  };
+  const anchor = indexOf(selection.anchorNode);
+  const focus = indexOf(selection.focusNode);
+  if (anchor === null || focus === null) return null;
+  return [Math.min(anchor, focus), Math.max(anchor, focus)];
+}
@@ -0,0 +1,194 @@
+import type { TranscriptionOutput } from '../types';
+
+const DB_NAME = 'whisper-web-scribe';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const MEDIA = 'media';
+
+// Warn once the origin has used this share of its storage quota
+export const QUOTA_WARNING_RATIO = 0.8;
+
+export interface ProjectSettings {
+  model: string;
+  language: string;
+  device: string;
+  // Vocabulary prompt used for this project's transcriptions
+  vocabulary?: string;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  mediaName: string;
+  mediaType: string;
+  mediaSize: number;
+  wordCount: number;
+  settings: ProjectSettings;
+}
+
+export interface Project extends ProjectSummary {
+  transcription: TranscriptionOutput;
+  media: Blob;
+}
+
+// Metadata and transcription live in `projects`; the (large) media blobs live in `media`
+// so listing the library never has to read them.
+type ProjectRow = ProjectSummary & { transcription: TranscriptionOutput };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) {
+          db.createObjectStore(PROJECTS, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(MEDIA)) {
+          db.createObjectStore(MEDIA);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function transaction<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+  const db = await openDB();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+  const result = await run(tx);
+  await done;
+  return result;
+}
+
+function toSummary({ transcription, ...summary }: ProjectRow): ProjectSummary {
+  return summary;
+}
+
+function newId(): string {
+  return crypto.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const rows = await transaction([PROJECTS], 'readonly', tx =>
+    promisify<ProjectRow[]>(tx.objectStore(PROJECTS).getAll())
+  );
+  return rows.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProject(id: string): Promise<Project | null> {
+  return transaction([PROJECTS, MEDIA], 'readonly', async tx => {
+    const [row, media] = await Promise.all([
+      promisify<ProjectRow | undefined>(tx.objectStore(PROJECTS).get(id)),
+      promisify<Blob | undefined>(tx.objectStore(MEDIA).get(id)),
+    ]);
+    if (!row || !media) return null;
+    return { ...row, media };
+  });
+}
+
+export async function createProject(
+  media: File,
+  transcription: TranscriptionOutput,
+  settings: ProjectSettings
+): Promise<ProjectSummary> {
+  const now = Date.now();
+  const row: ProjectRow = {
+    id: newId(),
+    name: media.name.replace(/\.[^.]+$/, ''),
+    createdAt: now,
+    updatedAt: now,
+    mediaName: media.name,
+    mediaType: media.type,
+    mediaSize: media.size,
+    wordCount: transcription.chunks.length,
+    settings,
+    transcription,
+  };
+  await transaction([PROJECTS, MEDIA], 'readwrite', tx => {
+    tx.objectStore(PROJECTS).put(row);
+    tx.objectStore(MEDIA).put(media, row.id);
+  });
+  // Ask the browser not to evict the library under storage pressure
+  navigator.storage?.persist?.().catch(() => { });
+  return toSummary(row);
+}
+
+export async function updateProject(
+  id: string,
+  changes: Partial<Pick<ProjectRow, 'name' | 'transcription' | 'settings'>>
+): Promise<void> {
+  await transaction([PROJECTS], 'readwrite', async tx => {
+    const store = tx.objectStore(PROJECTS);
+    const row = await promisify<ProjectRow | undefined>(store.get(id));
+    if (!row) throw new Error('Project not found.');
+    const next: ProjectRow = { ...row, ...changes, updatedAt: Date.now() };
+    if (changes.transcription) next.wordCount = changes.transcription.chunks.length;
+    store.put(next);
+  });
+}
+
+// Merges into the saved settings, leaving the fields not given as they were
+export async function updateProjectSettings(id: string, settings: Partial<ProjectSettings>): Promise<void> {
+  await transaction([PROJECTS], 'readwrite', async tx => {
+    const store = tx.objectStore(PROJECTS);
+    const row = await promisify<ProjectRow | undefined>(store.get(id));
+    if (!row) throw new Error('Project not found.');
+    store.put({ ...row, settings: { ...row.settings, ...settings }, updatedAt: Date.now() });
+  });
+}
+
+export async function duplicateProject(id: string): Promise<ProjectSummary> {
+  const project = await getProject(id);
+  if (!project) throw new Error('Project not found.');
+  const now = Date.now();
+  const { media, ...row } = project;
+  const copy: ProjectRow = { ...row, id: newId(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now };
+  await transaction([PROJECTS, MEDIA], 'readwrite', tx => {
+    tx.objectStore(PROJECTS).put(copy);
+    tx.objectStore(MEDIA).put(media, copy.id);
+  });
+  return toSummary(copy);
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await transaction([PROJECTS, MEDIA], 'readwrite', tx => {
+    tx.objectStore(PROJECTS).delete(id);
+    tx.objectStore(MEDIA).delete(id);
+  });
+}
+
+export async function getStorageEstimate(): Promise<{ usage: number, quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+export function isQuotaError(err: unknown): boolean {
+  return err instanceof DOMException && (err.name === 'QuotaExceededError' || err.code === 22);
+}
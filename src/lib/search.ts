@@ -0,0 +1,96 @@
+import type { WordTimestamp } from '../types';
+import { wordText, wordStart } from './transcript';
+
+export interface SearchOptions {
+  matchCase: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = { matchCase: false, wholeWord: false, regex: false };
+
+export interface SearchHit {
+  // Word index range covered by the match, end exclusive
+  firstWord: number;
+  lastWord: number;
+  start: number;
+}
+
+export interface SearchResult {
+  hits: SearchHit[];
+  // Set when a regex query does not compile
+  error?: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Throws when a regex query does not compile
+export function buildPattern(query: string, options: SearchOptions): RegExp {
+  let source = options.regex ? query : escapeRegExp(query.trim());
+  if (options.wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  return new RegExp(source, options.matchCase ? 'gu' : 'giu');
+}
+
+export interface WordText {
+  // Trimmed words joined by single spaces
+  text: string;
+  // Character offset of each word in `text`
+  offsets: number[];
+}
+
+// Matches run over the words joined by single spaces, so a pattern can span several words
+// ("new york"); `wordAt` maps a match back to the words it touches.
+export function joinWordText(chunks: WordTimestamp[]): WordText {
+  const offsets: number[] = [];
+  let text = '';
+  chunks.forEach((chunk, i) => {
+    if (i > 0) text += ' ';
+    offsets.push(text.length);
+    text += wordText(chunk).trim();
+  });
+  return { text, offsets };
+}
+
+// Index of the word containing character `position`
+export function wordAt({ offsets }: WordText, position: number): number {
+  let lo = 0;
+  let hi = offsets.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (offsets[mid] <= position) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+export function searchTranscript(chunks: WordTimestamp[], query: string, options: SearchOptions): SearchResult {
+  if (!query.trim()) return { hits: [] };
+
+  let pattern: RegExp;
+  try {
+    pattern = buildPattern(query, options);
+  } catch (err: any) {
+    return { hits: [], error: err.message };
+  }
+
+  const joined = joinWordText(chunks);
+  const hits: SearchHit[] = [];
+  for (const match of joined.text.matchAll(pattern)) {
+    if (!match[0].length) continue;
+    const firstWord = wordAt(joined, match.index!);
+    const lastWord = wordAt(joined, match.index! + match[0].length - 1) + 1;
+    hits.push({ firstWord, lastWord, start: wordStart(chunks[firstWord]) });
+  }
+  return { hits };
+}
+
+// Word index -> index of the hit covering it, for highlighting
+export function hitsByWord(hits: SearchHit[]): Map<number, number> {
+  const map = new Map<number, number>();
+  hits.forEach((hit, h) => {
+    for (let i = hit.firstWord; i < hit.lastWord; i++) map.set(i, h);
+  });
+  return map;
+}
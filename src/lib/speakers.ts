@@ -0,0 +1,74 @@
+import type { TranscriptionOutput } from '../types';
+import { wordStart, wordEnd } from './transcript';
+import { withChunks } from './transcriptEditor';
+
+// Distinct hues that stay readable on the dark card background
+export const SPEAKER_PALETTE = ['#60a5fa', '#f472b6', '#34d399', '#fbbf24', '#a78bfa', '#f87171', '#22d3ee', '#a3e635'];
+
+export interface SpeakerSummary {
+  name: string;
+  color: string;
+  wordCount: number;
+  duration: number;
+}
+
+// Speakers in order of first appearance
+export function listSpeakers(transcription: TranscriptionOutput): SpeakerSummary[] {
+  const speakers = new Map<string, SpeakerSummary>();
+  for (const chunk of transcription.chunks) {
+    if (!chunk.speaker) continue;
+    let summary = speakers.get(chunk.speaker);
+    if (!summary) {
+      summary = { name: chunk.speaker, color: '', wordCount: 0, duration: 0 };
+      speakers.set(chunk.speaker, summary);
+    }
+    summary.wordCount++;
+    summary.duration += wordEnd(chunk) - wordStart(chunk);
+  }
+  return [...speakers.values()].map((summary, i) => ({
+    ...summary,
+    color: transcription.speakerColors?.[summary.name] ?? SPEAKER_PALETTE[i % SPEAKER_PALETTE.length],
+  }));
+}
+
+// Resolves every speaker's colour once so views don't rescan the transcript per word
+export function speakerColorMap(transcription: TranscriptionOutput): Record<string, string> {
+  return Object.fromEntries(listSpeakers(transcription).map(s => [s.name, s.color]));
+}
+
+// Renaming onto an existing label merges the two speakers
+export function renameSpeaker(transcription: TranscriptionOutput, from: string, to: string): TranscriptionOutput {
+  const name = to.trim();
+  if (!name || name === from) return transcription;
+
+  const colors = { ...transcription.speakerColors };
+  if (colors[from] && !colors[name]) colors[name] = colors[from];
+  delete colors[from];
+
+  const chunks = transcription.chunks.map(chunk => chunk.speaker === from ? { ...chunk, speaker: name } : chunk);
+  return { ...withChunks(transcription, chunks), speakerColors: colors };
+}
+
+export function mergeSpeakers(transcription: TranscriptionOutput, source: string, target: string): TranscriptionOutput {
+  return renameSpeaker(transcription, source, target);
+}
+
+export function setSpeakerColor(transcription: TranscriptionOutput, name: string, color: string): TranscriptionOutput {
+  return { ...transcription, speakerColors: { ...transcription.speakerColors, [name]: color } };
+}
+
+// Reassign the words from `first` to `last` (inclusive, either order) to another speaker
+export function reassignSpeaker(transcription: TranscriptionOutput, first: number, last: number, speaker: string): TranscriptionOutput {
+  const from = Math.min(first, last);
+  const to = Math.max(first, last);
+  const chunks = transcription.chunks.map((chunk, i) => i >= from && i <= to ? { ...chunk, speaker } : chunk);
+  return withChunks(transcription, chunks);
+}
+
+// First "Speaker N" label not already in use
+export function nextSpeakerName(transcription: TranscriptionOutput): string {
+  const used = new Set(transcription.chunks.map(chunk => chunk.speaker));
+  let n = 1;
+  while (used.has(`Speaker ${n}`)) n++;
+  return `Speaker ${n}`;
+}
@@ -0,0 +1,206 @@
+import type { TranscriptionOutput, WordTimestamp } from '../types';
+import { translationWords, translationBetween } from './translation';
+import { wordText, wordStart, wordEnd } from './transcript';
+
+export interface CueOptions {
+  maxCharsPerLine: number;
+  maxLines: number;
+  maxDuration: number;
+  minDuration: number;
+  maxCharsPerSecond: number;
+  breakOnPunctuation: boolean;
+  breakOnSpeakerChange: boolean;
+  // Name the speaker at each turn: a `<v>` voice tag in VTT, a "Name:" prefix elsewhere
+  speakerLabels: boolean;
+  // Which language SRT/VTT carry when a bilingual transcript is available
+  subtitleTrack: SubtitleTrack;
+}
+
+export type SubtitleTrack = 'original' | 'translation' | 'dual';
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+  speaker?: string;
+  words: WordTimestamp[];
+}
+
+export const DEFAULT_CUE_OPTIONS: CueOptions = {
+  maxCharsPerLine: 42,
+  maxLines: 2,
+  maxDuration: 7,
+  minDuration: 1,
+  maxCharsPerSecond: 17,
+  breakOnPunctuation: true,
+  breakOnSpeakerChange: true,
+  speakerLabels: true,
+  subtitleTrack: 'original',
+};
+
+const SENTENCE_END = /[.!?…。？！]["')\]]*$/;
+
+// Greedily wrap words into lines of at most `maxChars`, then rebalance two-line cues
+function wrapLines(words: string[], maxChars: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && candidate.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length === 2) {
+    // Pick the split closest to the middle that still respects the line limit
+    let best: string[] = lines;
+    let bestDiff = Math.abs(lines[0].length - lines[1].length);
+    for (let i = 1; i < words.length; i++) {
+      const first = words.slice(0, i).join(' ');
+      const second = words.slice(i).join(' ');
+      if (first.length > maxChars || second.length > maxChars) continue;
+      const diff = Math.abs(first.length - second.length);
+      if (diff < bestDiff) {
+        best = [first, second];
+        bestDiff = diff;
+      }
+    }
+    return best;
+  }
+  return lines;
+}
+
+function cueText(words: WordTimestamp[]): string[] {
+  return words.map(w => wordText(w).trim()).filter(Boolean);
+}
+
+// Whether the text stays within the line limits, and within the characters the reading speed lets a
+// viewer take in during the longest cue allowed
+function fitsOneCue(text: string[], options: CueOptions): boolean {
+  return text.join(' ').length <= options.maxCharsPerSecond * options.maxDuration
+    && wrapLines(text, options.maxCharsPerLine).length <= options.maxLines;
+}
+
+// Group word chunks into readable subtitle cues
+export function buildCues(chunks: WordTimestamp[], options: CueOptions = DEFAULT_CUE_OPTIONS): SubtitleCue[] {
+  const groups: WordTimestamp[][] = [];
+  let current: WordTimestamp[] = [];
+
+  const flush = () => {
+    if (current.length > 0) groups.push(current);
+    current = [];
+  };
+
+  for (const chunk of chunks) {
+    const text = wordText(chunk).trim();
+    if (!text) continue;
+
+    if (current.length > 0) {
+      const first = current[0];
+      const last = current[current.length - 1];
+      const candidate = [...cueText(current), text];
+      const duration = wordEnd(chunk) - wordStart(first);
+
+      const speakerChanged = options.breakOnSpeakerChange && chunk.speaker !== last.speaker;
+      const tooLong = duration > options.maxDuration;
+      const tooManyLines = !fitsOneCue(candidate, options);
+
+      if (speakerChanged || tooLong || tooManyLines) {
+        flush();
+      }
+    }
+
+    current.push(chunk);
+
+    if (options.breakOnPunctuation && SENTENCE_END.test(text)) {
+      const duration = wordEnd(chunk) - wordStart(current[0]);
+      if (duration >= options.minDuration) flush();
+    }
+  }
+  flush();
+
+  const cues = groups.map((words): SubtitleCue => ({
+    start: wordStart(words[0]),
+    end: wordEnd(words[words.length - 1]),
+    lines: wrapLines(cueText(words), options.maxCharsPerLine),
+    speaker: words[0].speaker,
+    words,
+  }));
+
+  // Cues stay in sync with the speech: a cue is only ever stretched into the gap before the next
+  // one, first to the minimum duration and then to the time its text takes to read at the reading
+  // speed. When that gap is too short, the cue is merged with the next one if both fit in a single
+  // cue, so the text gets the time of both; later cues never move.
+  for (let i = 0; i < cues.length; i++) {
+    const cue = cues[i];
+    const next = cues[i + 1];
+    const reading = cue.lines.join(' ').length / options.maxCharsPerSecond;
+    const wanted = Math.max(options.minDuration, reading);
+    cue.end = Math.max(cue.end, Math.min(cue.start + wanted, next ? next.start : Infinity));
+    if (!next || cue.end - cue.start >= reading) continue;
+
+    const words = [...cue.words, ...next.words];
+    const sameSpeaker = !options.breakOnSpeakerChange || next.speaker === cue.speaker;
+    if (sameSpeaker && fitsOneCue(cueText(words), options)) {
+      const lines = wrapLines(cueText(words), options.maxCharsPerLine);
+      cues.splice(i, 2, { start: cue.start, end: next.end, lines, speaker: cue.speaker, words });
+      i--;
+    }
+  }
+
+  return cues;
+}
+
+// Cues for the selected subtitle track. Dual-line cues keep the original to one line and put
+// the English translation spoken over the same span underneath.
+export function buildTrackCues(transcription: TranscriptionOutput, options: CueOptions = DEFAULT_CUE_OPTIONS): SubtitleCue[] {
+  if (!transcription.translation?.length || options.subtitleTrack === 'original') {
+    return buildCues(transcription.chunks, options);
+  }
+  const translated = translationWords(transcription.translation);
+  if (options.subtitleTrack === 'translation') return buildCues(translated, options);
+
+  return buildCues(transcription.chunks, { ...options, maxLines: 1 }).map((cue, i, cues) => {
+    const until = i + 1 < cues.length ? cues[i + 1].start : Infinity;
+    const english = translationBetween(translated, i === 0 ? -Infinity : cue.start, until);
+    return english ? { ...cue, lines: [...cue.lines, english] } : cue;
+  });
+}
+
+export function formatTimestamp(seconds: number, isSRT: boolean): string {
+  const clamped = Math.max(0, seconds);
+  const date = new Date(clamped * 1000);
+  const hh = String(Math.floor(clamped / 3600)).padStart(2, '0');
+  const mm = String(date.getUTCMinutes()).padStart(2, '0');
+  const ss = String(date.getUTCSeconds()).padStart(2, '0');
+  const ms = String(date.getUTCMilliseconds()).padStart(3, '0');
+  return isSRT ? `${hh}:${mm}:${ss},${ms}` : `${hh}:${mm}:${ss}.${ms}`;
+}
+
+// Cue lines with "Speaker:" prepended whenever the speaker differs from the previous cue
+export function labelledLines(cues: SubtitleCue[]): string[][] {
+  return cues.map((cue, i) => {
+    const isTurn = cue.speaker && cue.speaker !== cues[i - 1]?.speaker;
+    return isTurn ? [`${cue.speaker}: ${cue.lines[0]}`, ...cue.lines.slice(1)] : cue.lines;
+  });
+}
+
+export function cuesToSRT(cues: SubtitleCue[], speakerLabels = false): string {
+  const lines = speakerLabels ? labelledLines(cues) : cues.map(cue => cue.lines);
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, true)} --> ${formatTimestamp(cue.end, true)}\n${lines[i].join('\n')}\n`)
+    .join('\n');
+}
+
+export function cuesToVTT(cues: SubtitleCue[], speakerLabels = false): string {
+  return 'WEBVTT\n\n' + cues
+    .map(cue => {
+      const text = speakerLabels && cue.speaker ? `<v ${cue.speaker}>${cue.lines.join('\n')}` : cue.lines.join('\n');
+      return `${formatTimestamp(cue.start, false)} --> ${formatTimestamp(cue.end, false)}\n${text}\n`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,19 @@
+import type { WordTimestamp } from '../types';
+
+// Whisper word chunks carry either `text` or `word`, and a `[start, end]` tuple whose end may be missing
+export function wordText(chunk: WordTimestamp): string {
+  return chunk.text ?? chunk.word ?? '';
+}
+
+export function wordStart(chunk: WordTimestamp): number {
+  return chunk.timestamp?.[0] ?? chunk.start ?? 0;
+}
+
+export function wordEnd(chunk: WordTimestamp): number {
+  const start = wordStart(chunk);
+  return chunk.timestamp?.[1] ?? chunk.end ?? start + 1;
+}
+
+export function joinWords(chunks: WordTimestamp[]): string {
+  return chunks.map(wordText).join('').replace(/\s+/g, ' ').trim();
+}
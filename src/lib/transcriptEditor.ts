@@ -0,0 +1,114 @@
+import type { TranscriptionOutput, WordTimestamp } from '../types';
+import { wordText, wordStart, wordEnd, joinWords } from './transcript';
+
+// Smallest span a newly inserted word may occupy before we borrow time from its neighbours
+const MIN_WORD_S = 0.1;
+
+export function withChunks(transcription: TranscriptionOutput, chunks: WordTimestamp[]): TranscriptionOutput {
+  return { ...transcription, text: joinWords(chunks), chunks };
+}
+
+// Spread [start, end] over several words proportionally to their length
+function distribute(texts: string[], start: number, end: number, template: WordTimestamp): WordTimestamp[] {
+  const totalChars = texts.reduce((sum, t) => sum + t.length, 0) || 1;
+  let cursor = start;
+  return texts.map(text => {
+    const length = (end - start) * (text.length / totalChars);
+    const word: WordTimestamp = { ...template, text: ` ${text}`, timestamp: [cursor, cursor + length] };
+    delete word.word;
+    // Typed by the user, so the model's score no longer applies
+    delete word.confidence;
+    cursor += length;
+    return word;
+  });
+}
+
+// Replace a word's text; text containing spaces becomes several words sharing the original span
+export function replaceWord(transcription: TranscriptionOutput, index: number, text: string): TranscriptionOutput {
+  return replaceRange(transcription, index, index + 1, text);
+}
+
+// Replace words [first, last) with new text spread over their combined span
+export function replaceRange(transcription: TranscriptionOutput, first: number, last: number, text: string): TranscriptionOutput {
+  const parts = text.trim().split(/\s+/).filter(Boolean);
+  const chunks = [...transcription.chunks];
+  const chunk = chunks[first];
+  const replacement = parts.length > 0 ? distribute(parts, wordStart(chunk), wordEnd(chunks[last - 1]), chunk) : [];
+  chunks.splice(first, last - first, ...replacement);
+  return withChunks(transcription, chunks);
+}
+
+// Split a word at a character offset (defaults to the middle)
+export function splitWord(transcription: TranscriptionOutput, index: number, at?: number): TranscriptionOutput {
+  const chunk = transcription.chunks[index];
+  const text = wordText(chunk).trim();
+  if (text.length < 2) return transcription;
+
+  const position = Math.min(text.length - 1, Math.max(1, at ?? Math.floor(text.length / 2)));
+  return replaceWord(transcription, index, `${text.slice(0, position)} ${text.slice(position)}`);
+}
+
+// Merge a word with the one that follows it
+export function mergeWords(transcription: TranscriptionOutput, index: number): TranscriptionOutput {
+  const first = transcription.chunks[index];
+  const second = transcription.chunks[index + 1];
+  if (!first || !second) return transcription;
+
+  const merged: WordTimestamp = {
+    ...first,
+    text: ` ${wordText(first).trim()}${wordText(second).trim()}`,
+    timestamp: [wordStart(first), wordEnd(second)],
+  };
+  delete merged.word;
+  if (first.confidence !== undefined && second.confidence !== undefined) {
+    merged.confidence = Math.min(first.confidence, second.confidence);
+  } else {
+    delete merged.confidence;
+  }
+  const chunks = [...transcription.chunks];
+  chunks.splice(index, 2, merged);
+  return withChunks(transcription, chunks);
+}
+
+// Insert a word after `index` (or at the very start when index is -1)
+export function insertWord(transcription: TranscriptionOutput, index: number, text: string): TranscriptionOutput {
+  const parts = text.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return transcription;
+
+  const chunks = [...transcription.chunks];
+  const prev = chunks[index];
+  const next = chunks[index + 1];
+  let start = prev ? wordEnd(prev) : Math.max(0, (next ? wordStart(next) : 0) - MIN_WORD_S * parts.length);
+  let end = next ? wordStart(next) : start + MIN_WORD_S * parts.length;
+
+  // No silence to fill: take the second half of the previous word and the first half of the next
+  if (end - start < MIN_WORD_S) {
+    if (prev) {
+      start = (wordStart(prev) + wordEnd(prev)) / 2;
+      chunks[index] = { ...prev, timestamp: [wordStart(prev), start] };
+    }
+    if (next) {
+      end = (wordStart(next) + wordEnd(next)) / 2;
+      chunks[index + 1] = { ...next, timestamp: [end, wordEnd(next)] };
+    }
+  }
+
+  const template: WordTimestamp = { speaker: (prev ?? next)?.speaker };
+  chunks.splice(index + 1, 0, ...distribute(parts, start, end, template));
+  return withChunks(transcription, chunks);
+}
+
+export function deleteWord(transcription: TranscriptionOutput, index: number): TranscriptionOutput {
+  const chunks = transcription.chunks.filter((_, i) => i !== index);
+  return withChunks(transcription, chunks);
+}
+
+// Move a word's boundaries, e.g. dragged on the timeline
+export function retimeWord(transcription: TranscriptionOutput, index: number, start: number, end: number): TranscriptionOutput {
+  const chunks = [...transcription.chunks];
+  const word: WordTimestamp = { ...chunks[index], timestamp: [start, end] };
+  // Placed by hand, so no longer an alignment estimate
+  delete word.unaligned;
+  chunks[index] = word;
+  return withChunks(transcription, chunks);
+}
@@ -0,0 +1,70 @@
+import { openAudioSource } from './audio';
+import type { DiarizationMode, WhisperTask } from '../types';
+import type { ModelLoadOptions } from './modelRegistry';
+import type { GlossaryRule } from './glossary';
+
+export interface TranscriptionSettings {
+  model: string;
+  // Source and per-part quantization from the model registry
+  modelOptions?: ModelLoadOptions;
+  language: string;
+  device: string;
+  task: WhisperTask;
+  diarization: DiarizationMode;
+  // Fixed speaker count for clustering; 0 lets the similarity threshold decide
+  numSpeakers: number;
+  // Energy-based VAD pre-pass: only detected speech reaches Whisper
+  vad: boolean;
+  // Names and terms passed to Whisper as a prompt
+  vocabulary: string;
+  // Find-and-replace rules applied to the finished transcript
+  glossary: GlossaryRule[];
+  // Script to align instead of keeping Whisper's wording (alignment mode)
+  reference?: string;
+}
+
+// Streams a media file to the worker window by window. The worker asks for the next window
+// with `need-audio` once it has consumed the previous one, so only one decoded window is in
+// flight at a time and every window is transferred rather than copied.
+export async function startStreamingTranscription(
+  worker: Worker,
+  file: File,
+  settings: TranscriptionSettings,
+  jobId?: string,
+  signal?: AbortSignal
+): Promise<{ duration: number }> {
+  const source = await openAudioSource(file);
+  // Cancelled while the file was opening: the worker never hears of this run
+  if (signal?.aborted) {
+    source.close();
+    throw new DOMException('Transcription was cancelled.', 'AbortError');
+  }
+
+  const onMessage = async (event: MessageEvent) => {
+    const data = event.data;
+    if (data.jobId !== jobId) return;
+
+    if (data.status === 'need-audio') {
+      try {
+        const { audio, isLast } = await source.next();
+        worker.postMessage({ type: 'audio', audio, isLast }, [audio.buffer]);
+      } catch (err: any) {
+        // Closed by a cancel, which has already told the worker
+        if (signal?.aborted) return;
+        source.close();
+        worker.postMessage({ type: 'abort', error: `Failed to decode media: ${err.message}` });
+      }
+    } else if (data.status === 'complete' || data.status === 'error') {
+      worker.removeEventListener('message', onMessage);
+      source.close();
+    }
+  };
+
+  worker.addEventListener('message', onMessage);
+  signal?.addEventListener('abort', () => {
+    worker.removeEventListener('message', onMessage);
+    source.close();
+  });
+  worker.postMessage({ type: 'start', ...settings, duration: source.duration, jobId });
+  return { duration: source.duration };
+}
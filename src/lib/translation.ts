@@ -0,0 +1,66 @@
+import type { TranscriptionOutput, TranslationSegment, WordTimestamp } from '../types';
+import { wordText, wordStart, wordEnd } from './transcript';
+
+// Translation comes back as timestamped sentences. Spreading each sentence's words across its
+// span (proportionally to length) lets the cue builder and the aligned views treat it like a
+// word-level transcript.
+export function translationWords(segments: TranslationSegment[]): WordTimestamp[] {
+  return segments.flatMap(segment => {
+    const words = segment.text.split(/\s+/).filter(Boolean);
+    const totalChars = words.reduce((sum, w) => sum + w.length, 0) || 1;
+    let cursor = segment.start;
+    return words.map((word): WordTimestamp => {
+      const length = (segment.end - segment.start) * (word.length / totalChars);
+      const chunk: WordTimestamp = { text: ` ${word}`, timestamp: [cursor, cursor + length] };
+      cursor += length;
+      return chunk;
+    });
+  });
+}
+
+export interface BilingualRow {
+  start: number;
+  end: number;
+  // Index range into transcription.chunks, end exclusive
+  firstWord: number;
+  lastWord: number;
+  translation: string;
+}
+
+// One row per translated sentence, holding the original words whose midpoint falls inside it.
+// Words between sentences join the following row so nothing in the original is dropped.
+export function alignTranslation(transcription: TranscriptionOutput): BilingualRow[] {
+  const segments = transcription.translation ?? [];
+  const chunks = transcription.chunks;
+  const rows: BilingualRow[] = [];
+  let index = 0;
+
+  segments.forEach((segment, s) => {
+    const firstWord = index;
+    const isLast = s === segments.length - 1;
+    while (index < chunks.length) {
+      const mid = (wordStart(chunks[index]) + wordEnd(chunks[index])) / 2;
+      if (!isLast && mid >= segment.end) break;
+      index++;
+    }
+    rows.push({
+      start: firstWord < index ? Math.min(segment.start, wordStart(chunks[firstWord])) : segment.start,
+      end: segment.end,
+      firstWord,
+      lastWord: index,
+      translation: segment.text,
+    });
+  });
+  return rows;
+}
+
+// Translation words whose midpoint falls within [start, end)
+export function translationBetween(words: WordTimestamp[], start: number, end: number): string {
+  return words
+    .filter(w => {
+      const mid = (wordStart(w) + wordEnd(w)) / 2;
+      return mid >= start && mid < end;
+    })
+    .map(w => wordText(w).trim())
+    .join(' ');
+}
@@ -0,0 +1,94 @@
+import type { SpeechRegion } from '../types';
+
+// Energy-based voice activity detection. Runs in the worker on each decoded window before
+// inference so Whisper only sees speech, and maps timestamps back to the original timeline.
+
+const FRAME_S = 0.03;
+// Frames this far above the window's noise floor count as speech...
+const SPEECH_MARGIN_DB = 10;
+// ...clamped so near-silent recordings still register speech and continuous talk isn't cut
+const MIN_THRESHOLD_DB = -55;
+const MAX_THRESHOLD_DB = -35;
+// Pauses shorter than this stay inside a region, blips shorter than MIN_SPEECH_S are dropped
+const MIN_SILENCE_S = 0.5;
+const MIN_SPEECH_S = 0.2;
+// Context kept on both sides of a region so word onsets and trailing consonants survive
+const PADDING_S = 0.25;
+
+// A run of kept samples: `compact` is its position in the speech-only stream, `original` in the media
+export interface TimelineSpan {
+  compact: number;
+  original: number;
+  length: number;
+}
+
+// Returns [start, end) sample ranges of speech inside `audio`
+export function detectSpeech(audio: Float32Array, sampleRate: number): [number, number][] {
+  const frame = Math.round(FRAME_S * sampleRate);
+  const frameCount = Math.ceil(audio.length / frame);
+  if (frameCount === 0) return [];
+
+  const energies = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    const end = Math.min(audio.length, (f + 1) * frame);
+    for (let i = f * frame; i < end; i++) sum += audio[i] * audio[i];
+    energies[f] = 10 * Math.log10(sum / (end - f * frame) + 1e-10);
+  }
+
+  const noiseFloor = [...energies].sort((a, b) => a - b)[Math.floor(frameCount * 0.1)];
+  const threshold = Math.min(MAX_THRESHOLD_DB, Math.max(MIN_THRESHOLD_DB, noiseFloor + SPEECH_MARGIN_DB));
+
+  const regions: [number, number][] = [];
+  const minSilence = Math.round(MIN_SILENCE_S / FRAME_S);
+  let start = -1;
+  let lastSpeech = -1;
+  for (let f = 0; f < frameCount; f++) {
+    if (energies[f] < threshold) continue;
+    if (start === -1) {
+      start = f;
+    } else if (f - lastSpeech > minSilence) {
+      regions.push([start, lastSpeech + 1]);
+      start = f;
+    }
+    lastSpeech = f;
+  }
+  if (start !== -1) regions.push([start, lastSpeech + 1]);
+
+  const padding = Math.round(PADDING_S * sampleRate);
+  const minSpeech = MIN_SPEECH_S * sampleRate;
+  const merged: [number, number][] = [];
+  for (const [from, to] of regions) {
+    if ((to - from) * frame < minSpeech) continue;
+    const s = Math.max(0, from * frame - padding);
+    const e = Math.min(audio.length, to * frame + padding);
+    const last = merged[merged.length - 1];
+    if (last && s <= last[1]) last[1] = e;
+    else merged.push([s, e]);
+  }
+  return merged;
+}
+
+// Maps a time in the speech-only stream back to the media timeline. A time exactly on the seam
+// between two spans belongs to the later one for starts and to the earlier one for ends.
+export function toOriginalTime(spans: TimelineSpan[], seconds: number, sampleRate: number, isEnd = false): number {
+  if (spans.length === 0) return seconds;
+  const sample = seconds * sampleRate;
+  let lo = 0;
+  let hi = spans.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (spans[mid].compact < sample || (!isEnd && spans[mid].compact === sample)) lo = mid;
+    else hi = mid - 1;
+  }
+  const span = spans[lo];
+  const within = Math.min(span.length, Math.max(0, sample - span.compact));
+  return (span.original + within) / sampleRate;
+}
+
+// Append a region, extending the previous one when they touch (e.g. across window boundaries)
+export function addRegion(regions: SpeechRegion[], region: SpeechRegion) {
+  const last = regions[regions.length - 1];
+  if (last && region.start - last.end < 1e-3) last.end = Math.max(last.end, region.end);
+  else regions.push({ ...region });
+}
@@ -0,0 +1,49 @@
+import { openAudioSource, SAMPLING_RATE } from './audio';
+
+// Resolution of the stored peaks; the timeline folds several together when zoomed out
+export const PEAKS_PER_S = 100;
+const SAMPLES_PER_PEAK = SAMPLING_RATE / PEAKS_PER_S;
+
+// Lowest and highest sample in every 1/PEAKS_PER_S slice of the media
+export interface Peaks {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+// Decodes the file window by window (as transcription does), so only the peaks of a long
+// recording are ever held in memory, never the whole signal.
+export async function computePeaks(file: File, signal?: AbortSignal): Promise<Peaks> {
+  const source = await openAudioSource(file);
+  const min: number[] = [];
+  const max: number[] = [];
+  let low = Infinity;
+  let high = -Infinity;
+  let count = 0;
+
+  try {
+    for (;;) {
+      if (signal?.aborted) throw new DOMException('Waveform decoding was cancelled.', 'AbortError');
+      const { audio, isLast } = await source.next();
+      for (let i = 0; i < audio.length; i++) {
+        const sample = audio[i];
+        if (sample < low) low = sample;
+        if (sample > high) high = sample;
+        if (++count === SAMPLES_PER_PEAK) {
+          min.push(low);
+          max.push(high);
+          low = Infinity;
+          high = -Infinity;
+          count = 0;
+        }
+      }
+      if (isLast) break;
+    }
+  } finally {
+    source.close();
+  }
+  if (count > 0) {
+    min.push(low);
+    max.push(high);
+  }
+  return { min: Float32Array.from(min), max: Float32Array.from(max) };
+}
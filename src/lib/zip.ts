@@ -0,0 +1,101 @@
+// Minimal ZIP writer (STORE method, no compression) for bundling exports client-side
+
+export interface ZipEntry {
+  name: string;
+  data: string | Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date/time fields used by the ZIP headers
+function dosDateTime(date: Date): [number, number] {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return [time, day];
+}
+
+// Appends entries one at a time, handing each file's bytes to a Blob straight away so the caller
+// can drop its copy; large exports never hold every file in memory at once
+export class ZipWriter {
+  private encoder = new TextEncoder();
+  private time: number;
+  private day: number;
+  private parts: Blob[] = [];
+  private central: Uint8Array[] = [];
+  private count = 0;
+  private offset = 0;
+
+  constructor(date = new Date()) {
+    [this.time, this.day] = dosDateTime(date);
+  }
+
+  add(entry: ZipEntry) {
+    const name = this.encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? this.encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, 0, true);
+    local.setUint16(10, this.time, true);
+    local.setUint16(12, this.day, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, this.time, true);
+    header.setUint16(14, this.day, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, this.offset, true);
+
+    this.parts.push(new Blob([local.buffer, name, data] as BlobPart[]));
+    this.central.push(new Uint8Array(header.buffer), name);
+    this.offset += 30 + name.length + data.length;
+    this.count++;
+  }
+
+  finish(): Blob {
+    const centralSize = this.central.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.count, true);
+    end.setUint16(10, this.count, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, this.offset, true);
+
+    return new Blob([...this.parts, ...this.central, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+  }
+}
+
+export function createZip(entries: ZipEntry[]): Blob {
+  const zip = new ZipWriter();
+  entries.forEach(entry => zip.add(entry));
+  return zip.finish();
+}
@@ -0,0 +1,50 @@
+// Service worker template. The build (see `serviceWorker()` in vite.config.ts) replaces the two
+// placeholders below with a hash of the build and the list of emitted files, and writes the
+// result to dist/sw.js. ONNX Runtime's wasm files are bundled assets, so they are precached with
+// the rest of the build. Model weights are not handled here: transformers.js keeps those in its
+// own Cache Storage bucket.
+
+const VERSION = __BUILD_VERSION__;
+const PRECACHE = __PRECACHE_FILES__;
+
+const SHELL_CACHE = `scribe-shell-${VERSION}`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        // Also drops the jsDelivr runtime cache older builds kept
+        keys.filter(key => key.startsWith('scribe-') && key !== SHELL_CACHE).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Pages come from the network when it is there so a new deploy shows up, else from the shell
+async function networkFirst(request) {
+  try {
+    return await fetch(request);
+  } catch (err) {
+    return (await caches.match(request, { ignoreSearch: true })) ?? (await caches.match('./index.html')) ?? Response.error();
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request).then(cached => cached ?? fetch(request)));
+  }
+});
@@ -0,0 +1,103 @@
+// Shared types for the UI thread and the transcription worker
+
+export interface ProgressMessage {
+  status: string;
+  name?: string;
+  file?: string;
+  progress?: number;
+  loaded?: number;
+  total?: number;
+}
+
+export interface WordTimestamp {
+  text?: string;
+  word?: string;
+  timestamp?: [number, number];
+  start?: number;
+  end?: number;
+  speaker?: string;
+  // Mean probability of the word's tokens (0-1); absent when the transcript has no scores
+  confidence?: number;
+  // Script word from alignment mode that Whisper did not hear; its timing is interpolated
+  unaligned?: boolean;
+}
+
+// Seconds on the original media timeline
+export interface SpeechRegion {
+  start: number;
+  end: number;
+}
+
+// A translated sentence from the second ("both") pass, on the media timeline
+export interface TranslationSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// 'both' runs a transcribe pass and a translate-to-English pass over every window
+export type WhisperTask = 'transcribe' | 'translate' | 'both';
+
+// Result of Whisper's language identification when the language is set to auto-detect
+export interface DetectedLanguage {
+  code: string;
+  name: string;
+  probability: number;
+}
+
+export interface TranscriptionOutput {
+  text: string;
+  chunks: WordTimestamp[];
+  // Colours picked in the speaker panel, keyed by label; unlisted speakers use the default palette
+  speakerColors?: Record<string, string>;
+  // Speech detected by the VAD pre-pass, on the media timeline
+  speechRegions?: SpeechRegion[];
+  // English translation aligned to the same timeline as `chunks`
+  translation?: TranslationSegment[];
+  language?: DetectedLanguage;
+}
+
+// 'embedding' clusters speaker embeddings in the worker; 'pause' is the old two-speaker pause heuristic
+export type DiarizationMode = 'embedding' | 'pause';
+
+// Emitted by the worker after every 30 s window has been transcribed
+export interface PartialMessage {
+  status: 'partial';
+  chunks: WordTimestamp[];
+  translation?: TranslationSegment[];
+  processed: number;
+  total: number;
+}
+
+// Emitted for each decoded window when the VAD pre-pass is on
+export interface VadMessage {
+  status: 'vad';
+  regions: SpeechRegion[];
+  analyzed: number;
+}
+
+// Emitted after every live-mode pass: newly committed words plus the still-tentative tail
+export interface LiveMessage {
+  status: 'live';
+  committed: WordTimestamp[];
+  tentative: string;
+  processed: number;
+}
+
+export interface LiveTranscript {
+  committed: WordTimestamp[];
+  tentative: string;
+  elapsed: number;
+}
+
+// Emitted while a window is being decoded, before its word timestamps are known
+export interface DraftMessage {
+  status: 'draft';
+  text: string;
+}
+
+export interface TranscriptionProgress {
+  processed: number;
+  total: number;
+  draft: string;
+}
@@ -1,26 +1,82 @@
-import { pipeline, env } from '@huggingface/transformers';
+import {
+    pipeline, env, WhisperTextStreamer, ProgressCallback, AutoProcessor, WavLMForXVector, Tensor,
+    LogitsProcessor, LogitsProcessorList
+} from '@huggingface/transformers';
+import type { WordTimestamp, DiarizationMode, SpeechRegion, TranslationSegment, DetectedLanguage } from './types';
+import {
+    SpeechSegment, SEGMENT_MIN_S, buildSpeechSegments, assignSpeakersByPause, assignSpeakersFromSegments
+} from './lib/diarization';
+import { TimelineSpan, detectSpeech, toOriginalTime, addRegion } from './lib/vad';
+import { AUTO_DETECT, WHISPER_LANGUAGES } from './lib/languages';
+import type { ModelLoadOptions } from './lib/modelRegistry';
+import { TokenProbability, attachConfidence } from './lib/confidence';
+import { GlossaryRule, applyGlossary } from './lib/glossary';
+import { splitReference, matchScript, placeUnaligned } from './lib/alignment';
+import { hasCachedHubModel } from './lib/modelCache';
+// ONNX Runtime's wasm build, bundled with the app so it is precached with the shell instead of
+// coming from jsDelivr the first time a model runs
+import ortWasmUrl from '../node_modules/@huggingface/transformers/dist/ort-wasm-simd-threaded.jsep.wasm?url';
+import ortModuleUrl from '../node_modules/@huggingface/transformers/dist/ort-wasm-simd-threaded.jsep.mjs?url';
+
+env.backends.onnx.wasm!.wasmPaths = { wasm: ortWasmUrl, mjs: ortModuleUrl };
+
+const SAMPLING_RATE = 16000;
+const CHUNK_LENGTH_S = 30;
+const STRIDE_LENGTH_S = 5;
+// Live mode: force-commit once the uncommitted audio grows past this, keeping the last stride tentative
+const LIVE_MAX_BUFFER_S = 20;
+// Least speech needed before language identification is trusted
+const MIN_DETECT_S = 3;
+// Whisper only attends to the last 223 tokens of previous-text context
+const MAX_PROMPT_TOKENS = 223;
+
+// Local models are served from the app's own origin and hub models never touch it. Offline, hub
+// models are restricted to local files so transformers.js answers from the browser cache it
+// downloaded them into, and never waits on a request that cannot succeed. Returns whether the
+// model has to come from that cache.
+function selectModelSource(modelOptions?: ModelLoadOptions): boolean {
+    const local = modelOptions?.source === 'local';
+    const offline = !local && !self.navigator.onLine;
+    env.allowLocalModels = local || offline;
+    env.allowRemoteModels = !local && !offline;
+    if (local) env.localModelPath = modelOptions!.localModelPath;
+    return offline;
+}
 
 class PipelineSingleton {
     static task = 'automatic-speech-recognition';
     static model = 'Xenova/whisper-tiny';
     static device = 'wasm';
+    static options = '';
     static instance: any = null;
 
-    static async getInstance(progress_callback: Function, model: string, device: string) {
-        if (this.instance === null || this.model !== model || this.device !== device) {
+    static async getInstance(progress_callback: ProgressCallback, model: string, device: string, modelOptions?: ModelLoadOptions) {
+        const options = JSON.stringify(modelOptions ?? null);
+        if (this.instance === null || this.model !== model || this.device !== device || this.options !== options) {
             this.model = model;
             this.device = device;
+            this.options = options;
+            if (selectModelSource(modelOptions) && !(await hasCachedHubModel(model))) {
+                this.instance = null;
+                throw new Error(`${model} has not been downloaded for offline use. Reconnect to the internet to download it.`);
+            }
+            const dtype = modelOptions && {
+                encoder_model: modelOptions.dtype.encoder,
+                decoder_model_merged: modelOptions.dtype.decoder,
+            };
             try {
                 this.instance = await pipeline(this.task as any, this.model, {
                     progress_callback,
-                    device: this.device as any
+                    device: this.device as any,
+                    dtype
                 });
             } catch (err) {
                 console.warn("Requested device failed, falling back to wasm", err);
                 this.device = 'wasm';
                 this.instance = await pipeline(this.task as any, this.model, {
                     progress_callback,
-                    device: 'wasm'
+                    device: 'wasm',
+                    dtype
                 });
             }
         }
@@ -28,24 +84,613 @@ class PipelineSingleton {
     }
 }
 
-self.addEventListener('message', async (event) => {
-    const { audio, model, language, device } = event.data;
+// Speaker-verification model producing one x-vector per segment of speech
+class SpeakerEmbeddingSingleton {
+    static model_id = 'Xenova/wavlm-base-plus-sv';
+    static processor: any = null;
+    static model: any = null;
+
+    static async getInstance(progress_callback: ProgressCallback) {
+        if (this.model === null) {
+            // Always from the hub (or its cached copy), whatever the last Whisper load selected
+            if (selectModelSource() && !(await hasCachedHubModel(this.model_id))) {
+                throw new Error('The speaker model has not been downloaded for offline use. Reconnect to the internet, or pick another speaker detection mode.');
+            }
+            this.processor = await AutoProcessor.from_pretrained(this.model_id, { progress_callback });
+            this.model = await WavLMForXVector.from_pretrained(this.model_id, { progress_callback, device: 'wasm' });
+        }
+        return { processor: this.processor, model: this.model };
+    }
+}
+
+async function embedSegments(segments: SpeechSegment[], audio: Float32Array, offsetS: number) {
+    const { processor, model } = await SpeakerEmbeddingSingleton.getInstance((x) => self.postMessage(x));
+    for (const segment of segments) {
+        if (segment.end - segment.start < SEGMENT_MIN_S) continue;
+        const from = Math.max(0, Math.floor((segment.start - offsetS) * SAMPLING_RATE));
+        const to = Math.min(audio.length, Math.ceil((segment.end - offsetS) * SAMPLING_RATE));
+        const inputs = await processor(audio.subarray(from, to));
+        const { embeddings } = await model(inputs);
+        segment.embedding = new Float32Array(embeddings.data);
+    }
+}
+
+// IEEE 754 half-precision bits to a number
+function halfToFloat(bits: number): number {
+    const sign = bits & 0x8000 ? -1 : 1;
+    const exponent = (bits >> 10) & 0x1f;
+    const fraction = bits & 0x3ff;
+    if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+    if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+    return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+// First row of the logits as float32. fp16 decoders return half precision, which arrives as raw
+// bits in a Uint16Array wherever the browser has no Float16Array.
+function logitsRow(logits: Tensor): Float32Array {
+    const vocab = logits.dims[logits.dims.length - 1];
+    const data = logits.data;
+    if (logits.type === 'float32') return (data as Float32Array).slice(0, vocab);
+    const row = new Float32Array(vocab);
+    const raw = logits.type === 'float16' && data instanceof Uint16Array;
+    for (let i = 0; i < vocab; i++) row[i] = raw ? halfToFloat(data[i] as number) : Number(data[i]);
+    return row;
+}
+
+// Records the probability the decoder gave each token it picked. Decoding is greedy, so the token
+// chosen at one step arrives as the last input id of the next; only the previous step's logits are kept.
+class TokenProbabilityRecorder extends LogitsProcessor {
+    tokens: TokenProbability[] = [];
+    previous: { logits: Float32Array, max: number, sum: number } | null = null;
+
+    _call(input_ids: bigint[][], logits: Tensor) {
+        if (this.previous) {
+            const id = Number(input_ids[0][input_ids[0].length - 1]);
+            const { logits: row, max, sum } = this.previous;
+            this.tokens.push({ id, probability: Math.exp(row[id] - max) / sum });
+        }
+        const row = logitsRow(logits);
+        let max = -Infinity;
+        for (const value of row) if (value > max) max = value;
+        let sum = 0;
+        for (const value of row) sum += Math.exp(value - max);
+        this.previous = { logits: row, max, sum };
+        return logits;
+    }
+}
+
+// Token ids of the vocabulary prompt, as text "previously" transcribed
+function encodePrompt(transcriber: any, vocabulary?: string): number[] {
+    const text = vocabulary?.trim().replace(/\s+/g, ' ');
+    if (!text) return [];
+    return transcriber.tokenizer.encode(` ${text}`, { add_special_tokens: false }).slice(-MAX_PROMPT_TOKENS);
+}
+
+// The pipeline has no prompt option, so generate is wrapped for the duration of `run`: the prompt goes
+// in front of the usual init tokens behind <|startofprev|>, and is cut off the output again so it never
+// reaches the decoded words or their timestamps. The init tokens come from transformers.js internals,
+// so without them, or when the output does not verifiably start with the prompt, the window is
+// transcribed unprompted rather than risk cutting real words or misaligning their timestamps.
+async function withPrompt(transcriber: any, promptIds: number[], run: () => Promise<any>): Promise<any> {
+    const startOfPrev = transcriber.tokenizer.model.tokens_to_ids.get('<|startofprev|>');
+    const model = transcriber.model;
+    if (promptIds.length === 0 || startOfPrev === undefined) return run();
+    if (typeof model._retrieve_init_tokens !== 'function' || typeof model._prepare_generation_config !== 'function') {
+        console.warn('This transformers.js version exposes no Whisper init tokens; transcribing without the vocabulary prompt.');
+        return run();
+    }
+
+    const generate = model.generate;
+    const prefix = [startOfPrev, ...promptIds];
+    model.generate = async (kwargs: Record<string, any>) => {
+        const init = model._retrieve_init_tokens(model._prepare_generation_config(null, { ...kwargs }));
+        const recorders: TokenProbabilityRecorder[] = (kwargs.logits_processor?.processors ?? [])
+            .filter((processor: unknown) => processor instanceof TokenProbabilityRecorder);
+        const recorded = recorders.map(recorder => recorder.tokens.length);
+        const outputs = await generate.call(model, { ...kwargs, decoder_input_ids: [...prefix, ...init] });
+        const sequences: Tensor = outputs.sequences ?? outputs;
+        const timestamps: Tensor | undefined = outputs.token_timestamps;
+        if (!startsWithPrefix(sequences, prefix) || (timestamps && timestamps.dims.join() !== sequences.dims.join())) {
+            console.warn('Prompted output did not start with the vocabulary prompt; transcribing this window without it.');
+            // Forget the token scores of the discarded pass
+            recorders.forEach((recorder, i) => {
+                recorder.tokens.length = recorded[i];
+                recorder.previous = null;
+            });
+            return generate.call(model, kwargs);
+        }
+        const strip = (tensor: Tensor) => tensor.slice(null, [prefix.length, null]);
+        if (outputs.sequences) {
+            outputs.sequences = strip(outputs.sequences);
+            if (timestamps) outputs.token_timestamps = strip(timestamps);
+            return outputs;
+        }
+        return strip(outputs);
+    };
+    try {
+        return await run();
+    } finally {
+        model.generate = generate;
+    }
+}
+
+// Whether a single generated sequence opens with exactly these token ids
+function startsWithPrefix(sequences: Tensor, prefix: number[]): boolean {
+    if (sequences.dims.length !== 2 || sequences.dims[0] !== 1 || sequences.dims[1] < prefix.length) return false;
+    return prefix.every((id, i) => Number(sequences.data[i]) === id);
+}
+
+// Whisper with word timestamps, each word scored from its token probabilities
+async function transcribeWords(current: StreamSession, audio: Float32Array, options: Record<string, any> = {}): Promise<WordTimestamp[]> {
+    const recorder = new TokenProbabilityRecorder();
+    const logits_processor = new LogitsProcessorList();
+    logits_processor.push(recorder);
+    const output = await withPrompt(current.transcriber, current.promptIds, () => current.transcriber(audio, {
+        ...current.options,
+        return_timestamps: 'word',
+        logits_processor,
+        ...options
+    }));
+    const tokenizer = current.transcriber.tokenizer;
+    const special = new Set<number>(tokenizer.all_special_ids);
+    const tokens = recorder.tokens.filter(token => !special.has(token.id));
+    return attachConfidence(output.chunks, tokens, (ids) => tokenizer.decode(ids));
+}
+
+// Forced alignment: the script's tokens follow the usual init tokens as decoder input, so the decoder
+// reads them instead of choosing its own, and the cross-attention DTW that times Whisper's own words
+// times each of them. Returns [start, end] per word within `audio`, or null when the words do not fit
+// the decoder's context or this transformers.js version lacks the internals used to build the input.
+async function forceAlign(current: StreamSession, audio: Float32Array, words: string[]): Promise<[number, number][] | null> {
+    const { model, tokenizer, processor } = current.transcriber;
+    if (typeof model._retrieve_init_tokens !== 'function' || typeof model._prepare_generation_config !== 'function') return null;
+    const init: number[] = model._retrieve_init_tokens(model._prepare_generation_config(null, { ...current.options }));
+    const wordIds: number[][] = words.map(word => tokenizer.encode(` ${word}`, { add_special_tokens: false }));
+    const ids = [...init, ...wordIds.flat()];
+    if (ids.length >= (model.config.max_target_positions ?? 448)) return null;
+
+    const { input_features } = await processor(audio);
+    const outputs = await model.generate({
+        inputs: input_features,
+        ...current.options,
+        decoder_input_ids: ids,
+        // The one generated token only closes the pass; its cross-attention is not used
+        max_new_tokens: 1,
+        return_token_timestamps: true,
+        num_frames: Math.floor(audio.length / processor.feature_extractor.config.hop_length)
+    });
+    // token_timestamps[i] is where token i starts, so a word runs from its first token to the token after its last
+    const times: number[] = outputs.token_timestamps.tolist()[0];
+    let index = init.length;
+    return wordIds.map(tokens => {
+        const start = times[index];
+        index += tokens.length;
+        return [start, Math.max(start, times[index])];
+    });
+}
+
+// Alignment mode's take on a window: the script stretch its free transcription matches is forced
+// against its audio, and the words no earlier window placed are kept up to the stride shared with the
+// next window. The last window takes whatever is left of the script. Words the free transcription
+// never matched come back `unaligned`, to be spread out at the end: forcing them still gives them a
+// place, but not one the audio backs up. So does a whole stretch too long for the decoder to force.
+async function alignWindow(current: StreamSession, chunks: WordTimestamp[], audio: Float32Array, offsetS: number, keepTo: number, isLast: boolean): Promise<WordTimestamp[]> {
+    const alignment = current.alignment!;
+    const { script, cursor } = alignment;
+    const match = matchScript(script, cursor, chunks);
+    const last = isLast ? script.length - 1 : match?.last ?? -1;
+    if (last < cursor) return [];
+    const first = Math.min(match?.first ?? cursor, cursor);
+    const times = await forceAlign(current, audio, script.slice(first, last + 1));
+
+    const words: WordTimestamp[] = [];
+    for (let i = cursor; i <= last; i++) {
+        const text = ` ${script[i]}`;
+        if (times) {
+            const start = times[i - first][0] + offsetS;
+            const end = times[i - first][1] + offsetS;
+            if ((start + end) / 2 >= keepTo) break;
+            if (match?.matched.has(i)) {
+                const confidence = match.confidence.get(i);
+                words.push({ text, timestamp: [start, end], ...(confidence !== undefined ? { confidence } : {}) });
+                continue;
+            }
+        }
+        words.push({ text, unaligned: true });
+    }
+    alignment.cursor += words.length;
+    return words;
+}
+
+interface StreamSession {
+    transcriber: any;
+    options: Record<string, any>;
+    post: (message: Record<string, any>) => void;
+    // Audio not yet fully transcribed; `bufferOffset` is the absolute sample index of buffer[0]
+    buffer: Float32Array;
+    bufferOffset: number;
+    isFirst: boolean;
+    duration: number;
+    words: WordTimestamp[];
+    diarization: DiarizationMode;
+    numSpeakers?: number;
+    segments: SpeechSegment[];
+    // Live mode re-transcribes the uncommitted tail on every pass; `hypothesis` holds the previous pass's tentative words
+    live: boolean;
+    hypothesis: WordTimestamp[];
+    // With VAD on, `buffer` holds speech only; `spans` map it back onto the media timeline
+    vad: boolean;
+    spans: TimelineSpan[];
+    receivedSamples: number;
+    speechSamples: number;
+    regions: SpeechRegion[];
+    // Task 'both': every window also gets a translate pass with sentence timestamps
+    bilingual: boolean;
+    translation: TranslationSegment[];
+    // Set once language identification has run when the user picked auto-detect
+    detectLanguage: boolean;
+    language?: DetectedLanguage;
+    // Vocabulary prompt biasing every window towards the project's names and terms
+    promptIds: number[];
+    // Find-and-replace rules run over the finished transcript
+    glossary: GlossaryRule[];
+    // Alignment mode: the script's words replace Whisper's, force-aligned window by window;
+    // `cursor` is the first script word no window has placed yet
+    alignment?: { script: string[], cursor: number };
+}
+
+let session: StreamSession | null = null;
+
+function append(a: Float32Array, b: Float32Array): Float32Array {
+    const out = new Float32Array(a.length + b.length);
+    out.set(a, 0);
+    out.set(b, a.length);
+    return out;
+}
+
+// Whisper's language identification: a single decoder step after <|startoftranscript|>, with the
+// softmax taken over the language tokens only. Returns null for English-only checkpoints.
+async function identifyLanguage(transcriber: any, audio: Float32Array): Promise<DetectedLanguage | null> {
+    const ids: Map<string, number> = transcriber.tokenizer.model.tokens_to_ids;
+    const candidates = WHISPER_LANGUAGES
+        .map(language => ({ language, id: ids.get(`<|${language.code}|>`) }))
+        .filter((c): c is { language: typeof c.language, id: number } => c.id !== undefined);
+    const sot = ids.get('<|startoftranscript|>');
+    if (candidates.length === 0 || sot === undefined) return null;
 
+    const { input_features } = await transcriber.processor(audio.subarray(0, CHUNK_LENGTH_S * SAMPLING_RATE));
+    const { logits } = await transcriber.model({
+        input_features,
+        decoder_input_ids: new Tensor('int64', BigInt64Array.from([BigInt(sot)]), [1, 1])
+    });
+
+    const row = logitsRow(logits);
+    const scores = candidates.map(c => row[c.id]);
+    const max = Math.max(...scores);
+    const weights = scores.map(score => Math.exp(score - max));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    const best = weights.indexOf(Math.max(...weights));
+    const { code, name } = candidates[best].language;
+    return { code, name, probability: weights[best] / total };
+}
+
+async function resolveLanguage(current: StreamSession, isLast: boolean) {
+    if (!current.detectLanguage || current.buffer.length === 0) return;
+    if (current.buffer.length < MIN_DETECT_S * SAMPLING_RATE && !isLast) return;
+    current.detectLanguage = false;
+    const detected = await identifyLanguage(current.transcriber, current.buffer);
+    if (!detected) return;
+    current.language = detected;
+    // Pin it so every window agrees instead of Whisper guessing per window
+    current.options.language = detected.name;
+    current.post({ status: 'language', language: detected });
+}
+
+// Keeps only the speech in a freshly received window and reports the detected regions
+function keepSpeech(current: StreamSession, audio: Float32Array): Float32Array {
+    const origin = current.receivedSamples;
+    current.receivedSamples += audio.length;
+
+    const ranges = detectSpeech(audio, SAMPLING_RATE);
+    const regions: SpeechRegion[] = [];
+    const speech = new Float32Array(ranges.reduce((sum, [start, end]) => sum + end - start, 0));
+    let offset = 0;
+    for (const [start, end] of ranges) {
+        speech.set(audio.subarray(start, end), offset);
+        current.spans.push({ compact: current.speechSamples + offset, original: origin + start, length: end - start });
+        offset += end - start;
+        const region = { start: (origin + start) / SAMPLING_RATE, end: (origin + end) / SAMPLING_RATE };
+        addRegion(current.regions, region);
+        regions.push(region);
+    }
+    current.speechSamples += speech.length;
+
+    current.post({ status: 'vad', regions, analyzed: current.receivedSamples / SAMPLING_RATE });
+    return speech;
+}
+
+const mapTime = (current: StreamSession, seconds: number, isEnd = false) =>
+    current.vad ? toOriginalTime(current.spans, seconds, SAMPLING_RATE, isEnd) : seconds;
+
+// Embed the speech under `words` while its audio is still in memory
+async function embedWords(current: StreamSession, words: WordTimestamp[], audio: Float32Array, offsetS: number) {
+    if (current.diarization !== 'embedding' || words.length === 0) return;
+    const segments = buildSpeechSegments(words);
     try {
-        const transcriber = await PipelineSingleton.getInstance((x: any) => {
-            self.postMessage(x);
-        }, model || 'Xenova/whisper-tiny', device || 'wasm');
-
-        const output = await transcriber(audio, {
-            chunk_length_s: 30,
-            stride_length_s: 5,
-            return_timestamps: 'word',
-            language: language || 'english',
-            task: 'transcribe'
+        await embedSegments(segments, audio, offsetS);
+    } catch (err: any) {
+        console.warn('Speaker embedding failed, falling back to pause-based diarization', err);
+        current.diarization = 'pause';
+        current.post({ status: 'warning', message: `Speaker embeddings unavailable (${err.message}); using pause-based diarization.` });
+    }
+    current.segments.push(...segments);
+}
+
+const normalizeWord = (chunk: WordTimestamp) => (chunk.text ?? '').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Live transcription with local agreement: the uncommitted tail is re-transcribed whenever new
+// microphone audio arrives, and words that two consecutive passes agree on are committed. Committed
+// audio is dropped from the buffer, so each pass only sees the last few seconds of speech.
+async function transcribeLive(current: StreamSession, isLast: boolean) {
+    const window = CHUNK_LENGTH_S * SAMPLING_RATE;
+    const offsetS = current.bufferOffset / SAMPLING_RATE;
+    const audio = current.buffer.subarray(0, window);
+    const bufferEndS = offsetS + audio.length / SAMPLING_RATE;
+
+    const chunks = audio.length > 0 ? await transcribeWords(current, audio) : [];
+    const words = chunks.map((chunk): WordTimestamp => {
+        const start = (chunk.timestamp?.[0] ?? 0) + offsetS;
+        const end = (chunk.timestamp?.[1] ?? chunk.timestamp?.[0] ?? 0) + offsetS;
+        return { ...chunk, timestamp: [Math.min(start, bufferEndS), Math.min(end, bufferEndS)] };
+    });
+
+    let commitCount = 0;
+    if (isLast) {
+        commitCount = words.length;
+    } else {
+        while (commitCount < words.length && commitCount < current.hypothesis.length
+            && normalizeWord(words[commitCount]) === normalizeWord(current.hypothesis[commitCount])) {
+            commitCount++;
+        }
+        // Nothing settles during a long monologue: commit everything outside the last stride
+        if (bufferEndS - offsetS > LIVE_MAX_BUFFER_S) {
+            const cutoff = bufferEndS - STRIDE_LENGTH_S;
+            while (commitCount < words.length && words[commitCount].timestamp![1] <= cutoff) commitCount++;
+        }
+    }
+
+    const committed = words.slice(0, commitCount);
+    current.hypothesis = words.slice(commitCount);
+    current.words.push(...committed);
+    await embedWords(current, committed, audio, offsetS);
+
+    // Drop committed audio; during silence keep only the last stride so the buffer stays bounded
+    let trimToS = committed.length > 0 ? committed[committed.length - 1].timestamp![1] : offsetS;
+    if (words.length === 0 && bufferEndS - offsetS > LIVE_MAX_BUFFER_S) trimToS = bufferEndS - STRIDE_LENGTH_S;
+    const trim = Math.min(current.buffer.length, Math.max(0, Math.round((trimToS - offsetS) * SAMPLING_RATE)));
+    current.buffer = current.buffer.slice(trim);
+    current.bufferOffset += trim;
+    current.duration = bufferEndS;
+
+    current.post({
+        status: 'live',
+        committed,
+        tentative: current.hypothesis.map(w => w.text ?? '').join('').trim(),
+        processed: bufferEndS
+    });
+}
+
+// Runs Whisper over overlapping 30 s windows ourselves (instead of letting the pipeline
+// chunk internally) so every finished window can be posted back as a partial result.
+// Audio arrives in larger windows from the UI; only whole 30 s windows are transcribed
+// until the final piece arrives, and each one keeps the 5 s stride shared with the next.
+async function transcribeAvailable(current: StreamSession, isLast: boolean) {
+    const window = CHUNK_LENGTH_S * SAMPLING_RATE;
+    const stride = STRIDE_LENGTH_S * SAMPLING_RATE;
+    const jump = window - 2 * stride;
+
+    while (current.buffer.length >= window || (isLast && current.buffer.length > 0)) {
+        const chunkIsLast = isLast && current.buffer.length <= window;
+        const offsetS = current.bufferOffset / SAMPLING_RATE;
+        const chunkAudio = current.buffer.subarray(0, window);
+
+        let draft = '';
+        const streamer = new WhisperTextStreamer(current.transcriber.tokenizer, {
+            skip_prompt: true,
+            callback_function: (text: string) => {
+                draft += text;
+                current.post({ status: 'draft', text: draft });
+            }
+        });
+
+        const chunks = await transcribeWords(current, chunkAudio, { streamer });
+
+        // Only keep words whose midpoint falls outside the strides shared with neighbouring windows
+        const keepFrom = offsetS + (current.isFirst ? 0 : STRIDE_LENGTH_S);
+        const keepTo = chunkIsLast ? Infinity : offsetS + CHUNK_LENGTH_S - STRIDE_LENGTH_S;
+        // Alignment mode keeps the script's words instead, timed against this window's audio
+        const windowWords = current.alignment
+            ? await alignWindow(current, chunks, chunkAudio, offsetS, keepTo, chunkIsLast)
+            : chunks
+                .map((chunk): WordTimestamp => {
+                    const start = (chunk.timestamp?.[0] ?? 0) + offsetS;
+                    const end = (chunk.timestamp?.[1] ?? chunk.timestamp?.[0] ?? 0) + offsetS;
+                    return { ...chunk, timestamp: [start, end] };
+                })
+                .filter(chunk => {
+                    const [start, end] = chunk.timestamp!;
+                    const mid = (start + end) / 2;
+                    return mid >= keepFrom && mid < keepTo;
+                });
+
+        let translation: TranslationSegment[] = [];
+        if (current.bilingual) {
+            const translated = await current.transcriber(chunkAudio, {
+                ...current.options,
+                task: 'translate',
+                return_timestamps: true
+            });
+            translation = (translated.chunks as { text: string, timestamp: [number, number | null] }[])
+                .map(chunk => ({
+                    start: chunk.timestamp[0] + offsetS,
+                    end: (chunk.timestamp[1] ?? chunkAudio.length / SAMPLING_RATE) + offsetS,
+                    text: chunk.text.trim()
+                }))
+                .filter(segment => {
+                    const mid = (segment.start + segment.end) / 2;
+                    return segment.text && mid >= keepFrom && mid < keepTo;
+                })
+                .map(segment => ({ ...segment, start: mapTime(current, segment.start), end: mapTime(current, segment.end, true) }));
+            current.translation.push(...translation);
+        }
+
+        current.isFirst = false;
+        const segmentCount = current.segments.length;
+        const timedWords = windowWords.filter(chunk => !chunk.unaligned);
+        await embedWords(current, timedWords, chunkAudio, offsetS);
+
+        // Everything above ran on the speech-only timeline; move words and segments back onto the media's
+        const mediaWords = windowWords.map((chunk): WordTimestamp => chunk.unaligned ? chunk : {
+            ...chunk,
+            timestamp: [mapTime(current, chunk.timestamp![0]), mapTime(current, chunk.timestamp![1], true)]
+        });
+        current.segments.slice(segmentCount).forEach(segment => {
+            segment.start = mapTime(current, segment.start);
+            segment.end = mapTime(current, segment.end, true);
+        });
+        current.words.push(...mediaWords);
+
+        const processed = chunkIsLast
+            ? current.receivedSamples / SAMPLING_RATE
+            : mapTime(current, (current.bufferOffset + window - stride) / SAMPLING_RATE, true);
+        current.post({
+            status: 'partial',
+            chunks: mediaWords.filter(chunk => !chunk.unaligned),
+            ...(current.bilingual ? { translation } : {}),
+            processed,
+            total: Math.max(current.duration, processed)
         });
 
-        self.postMessage({ status: 'complete', output });
+        if (chunkIsLast) break;
+        current.buffer = current.buffer.slice(jump);
+        current.bufferOffset += jump;
+    }
+}
+
+self.addEventListener('message', async (event) => {
+    const { type, jobId } = event.data;
+    // Batch jobs tag their requests so the UI can route the replies
+    const post = (message: Record<string, any>) => self.postMessage(jobId ? { ...message, jobId } : message);
+
+    try {
+        if (type === 'start') {
+            const { model, modelOptions, language, device, duration, numSpeakers, live, vad, task, vocabulary, glossary, reference } = event.data;
+            const aligning = !live && !!reference?.trim();
+            let diarization: DiarizationMode = event.data.diarization || 'embedding';
+            if (diarization === 'embedding') {
+                // Load before Whisper so the UI's model download phase covers both
+                try {
+                    await SpeakerEmbeddingSingleton.getInstance((x) => self.postMessage(x));
+                } catch (err: any) {
+                    console.warn('Speaker embedding model failed to load, falling back to pause-based diarization', err);
+                    diarization = 'pause';
+                    post({ status: 'warning', message: `Speaker embeddings unavailable (${err.message}); using pause-based diarization.` });
+                }
+            }
+            const transcriber = await PipelineSingleton.getInstance((x) => {
+                self.postMessage(x);
+            }, model || 'Xenova/whisper-tiny', device || 'wasm', modelOptions);
+
+            // English-only checkpoints (*.en) reject any task or language option outright
+            const multilingual = !!transcriber.model.generation_config?.is_multilingual;
+            if (!multilingual && (task === 'translate' || task === 'both')) {
+                post({ status: 'warning', message: `${model} is English-only, so it transcribes without translating.` });
+            }
+
+            session = {
+                transcriber,
+                options: multilingual ? {
+                    // Left unset for auto-detect until identification has run
+                    ...(language && language !== AUTO_DETECT ? { language } : {}),
+                    task: task === 'translate' && !aligning ? 'translate' : 'transcribe'
+                } : {},
+                post,
+                buffer: new Float32Array(0),
+                bufferOffset: 0,
+                isFirst: true,
+                duration: duration || 0,
+                words: [],
+                diarization,
+                numSpeakers: numSpeakers || undefined,
+                segments: [],
+                live: !!live,
+                hypothesis: [],
+                // Live passes already only see the last few seconds, so VAD applies to file streaming
+                vad: !!vad && !live,
+                spans: [],
+                receivedSamples: 0,
+                speechSamples: 0,
+                regions: [],
+                // Live mode shows the original only; a second pass would halve its responsiveness
+                bilingual: task === 'both' && !live && !aligning && multilingual,
+                translation: [],
+                detectLanguage: multilingual && (!language || language === AUTO_DETECT),
+                promptIds: encodePrompt(transcriber, vocabulary),
+                glossary: glossary ?? [],
+                alignment: aligning ? { script: splitReference(reference), cursor: 0 } : undefined
+            };
+            post({ status: 'need-audio' });
+        } else if (type === 'load') {
+            // Pre-download for offline use: fetch (and so cache) the weights without starting a session
+            const { model, modelOptions, device, diarization } = event.data;
+            if (diarization === 'embedding') await SpeakerEmbeddingSingleton.getInstance((x) => self.postMessage(x));
+            await PipelineSingleton.getInstance((x) => {
+                self.postMessage(x);
+            }, model, device || 'wasm', modelOptions);
+            post({ status: 'loaded', model });
+        } else if (type === 'audio') {
+            const current = session;
+            if (!current) return;
+            const { audio, isLast } = event.data;
+            current.buffer = append(current.buffer, current.vad ? keepSpeech(current, audio) : audio);
+            await resolveLanguage(current, isLast);
+            if (current.live) await transcribeLive(current, isLast);
+            else await transcribeAvailable(current, isLast);
+
+            if (isLast) {
+                session = null;
+                // Unplaced script words have no timing to diarize by; they take a neighbour's speaker below
+                const timed = current.words.filter(w => !w.unaligned);
+                const speakers = current.diarization === 'embedding'
+                    ? assignSpeakersFromSegments(timed, current.segments, current.numSpeakers)
+                    : assignSpeakersByPause(timed);
+                let next = 0;
+                const chunks = current.alignment
+                    ? placeUnaligned(
+                        current.words.map(w => w.unaligned ? w : speakers[next++]),
+                        Math.max(current.duration, current.receivedSamples / SAMPLING_RATE)
+                    )
+                    : speakers;
+                const output = {
+                    text: chunks.map(w => w.text ?? '').join('').trim(),
+                    chunks,
+                    ...(current.vad ? { speechRegions: current.regions } : {}),
+                    ...(current.bilingual ? { translation: current.translation } : {}),
+                    ...(current.language ? { language: current.language } : {})
+                };
+                // The script's wording is final, so the glossary only runs over Whisper's own text
+                current.post({ status: 'complete', output: current.alignment ? output : applyGlossary(output, current.glossary).transcription });
+            } else {
+                current.post({ status: 'need-audio' });
+            }
+        } else if (type === 'abort') {
+            const current = session;
+            session = null;
+            (current?.post ?? post)({ status: 'error', error: event.data.error });
+        }
     } catch (error: any) {
-        self.postMessage({ status: 'error', error: error.message });
+        const current = session;
+        session = null;
+        (current?.post ?? post)({ status: 'error', error: error.message, model: event.data.model });
     }
 });
@@ -1,12 +1,39 @@
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
+import {createHash} from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import {defineConfig, loadEnv} from 'vite';
+import {defineConfig, loadEnv, type Plugin} from 'vite';
+
+// Files from public/ that the app shell needs offline
+const PUBLIC_SHELL_FILES = ['manifest.webmanifest', 'icon.svg'];
+
+// Emits dist/sw.js from src/sw.js with the list of built files to precache, so the installed
+// app loads without a network connection. Only runs for production builds.
+function serviceWorker(): Plugin {
+  return {
+    name: 'precache-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const files = [
+        './',
+        ...Object.keys(bundle).filter(file => !file.endsWith('.map')),
+        ...PUBLIC_SHELL_FILES,
+      ].sort();
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+      const source = fs.readFileSync(path.resolve(__dirname, 'src/sw.js'), 'utf-8')
+        .replace('__BUILD_VERSION__', JSON.stringify(version))
+        .replace('__PRECACHE_FILES__', JSON.stringify(files));
+      this.emitFile({type: 'asset', fileName: 'sw.js', source});
+    },
+  };
+}
 
 export default defineConfig(({mode}) => {
   const env = loadEnv(mode, '.', '');
   return {
-    plugins: [react(), tailwindcss()],
+    plugins: [react(), tailwindcss(), serviceWorker()],
     define: {
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
     },